@@ -1,34 +1,155 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
-import { writeFileSync } from 'fs';
-import { computeDiffSections, getColorForType, getPrefixForType } from './diff.js';
-import type { DiffSection } from './diff.js';
+import { basename } from 'path';
+import { computeDiff, computeExactDiff, DIFF_ALGORITHMS, sectionHasChanges, getColorForLine, getPrefixForLine, getBackgroundForType, segmentLine } from './diff.js';
+import type { DiffSection, DiffLine, DiffOptions, DiffResult } from './diff.js';
+import { DEFAULT_LAYOUT, resolveLayout, unifiedRowLine, countWrappedRows, UNIFIED_GUTTER_WIDTH } from './layout.js';
+import type { DiffLayout } from './layout.js';
+import { detectLanguage, createHighlighter, applyTokens, getColorForToken } from './syntax.js';
+import type { Language, Token, HighlightedSegment, Highlighter } from './syntax.js';
+import { MERGE_SIDES, findConflicts, resolveConflict, mergeThreeWay, formatMerge } from './merge.js';
+import type { MergeSources, MergeSide, ConflictChoice } from './merge.js';
+import { openLine, deleteLine, splitLine, joinLines, insertText } from './editing.js';
+import type { EditResult } from './editing.js';
+import { EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, historyPath, recordSide, restoreSide, loadHistory, saveHistory } from './history.js';
+import type { EditHistory } from './history.js';
+import { stampFile, readDiskState, readChangedFile, writeFileAtomic } from './save.js';
+import type { DiskState } from './save.js';
+import { formatPatch } from './patch.js';
+import type { PatchBase } from './patch.js';
+import { isStreamPath } from './input.js';
+import { buildDisplayModel, isRealLine, findRowForLine, sectionAtRow } from './display.js';
+import { startDiffTask, countLines, WORKER_MIN_LINES, QUICK_EDIT_LENGTH } from './worker.js';
+import type { DiffTask } from './worker.js';
+import { watchFiles, mapLine } from './watch.js';
+
+// Position within a multi-file session (patches, git, directories) and how to move through it
+export interface FileNav {
+  index: number;
+  count: number;
+  loading?: boolean; // The count is still growing
+  onNext: () => void;
+  onPrev: () => void;
+  onOpenList?: () => void; // Hands the keys to the file list (when one is shown)
+  listOpen?: boolean; // The file list has the keys
+}
+
+type Side = 'left' | 'right';
 
 interface AppProps {
   leftContent: string;
   rightContent: string;
   leftFile: string;
   rightFile: string;
-  onSave?: (content: string) => void;
+  leftLabel?: string; // Names shown in the header and patches (default to the file paths)
+  rightLabel?: string;
+  onSave?: (content: string) => void; // Called after the right side was written
+  savePath?: string; // Where the right side is written (defaults to rightFile)
+  saveDisabled?: string; // Reason saving is refused (e.g. right side is a git revision)
+  onSaveLeft?: (content: string) => void; // Called after the left side was written to leftFile
+  leftSaveDisabled?: string; // Reason the left side can't be edited (e.g. it is the git index)
+  sections?: DiffSection[]; // Precomputed sections (e.g. from a patch) - view is read-only
+  notes?: string[]; // Extra header info such as renames or mode changes
+  fileNav?: FileNav;
+  width?: number; // Columns available to the view (defaults to the terminal width)
+  diffOptions?: DiffOptions; // Initial ignore settings and algorithm (toggled at runtime with w / b / I / a)
+  layout?: DiffLayout; // Initial layout (toggled at runtime with l)
+  wrap?: boolean; // Start with soft wrap on (toggled at runtime with W)
+  language?: Language | null; // Syntax highlighting language; detected from the file names when omitted, null disables
+  merge?: MergeSources; // Three-way merge: the right side is the merge result, the left cycles through base/local/remote
+  persistHistory?: boolean; // Keep undo history per file pair between sessions and recover unsaved edits
+  backup?: boolean; // Keep a <file>.orig copy of each file as it was before the first save
+  exportPatch?: string; // Write a patch of the edited right side here on quit (and the default for E)
+  patchBase?: PatchBase; // What the exported patch applies to
+  watch?: boolean; // Re-read both files when other programs change them (toggled at runtime with R)
+}
+
+// Short footer label for the active ignore settings, e.g. "ws,blank"
+function describeDiffOptions(options: DiffOptions): string {
+  const parts: string[] = [];
+  if (options.ignoreAllWhitespace) parts.push('all-ws');
+  else if (options.ignoreTrailingWhitespace) parts.push('trailing-ws');
+  if (options.ignoreBlankLines) parts.push('blank');
+  if (options.ignoreCase) parts.push('case');
+  if (options.ignoreMatching?.length) parts.push('pattern');
+  if (options.masks?.length) parts.push('mask');
+  return parts.join(',');
 }
 
-export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, rightFile, onSave }) => {
+export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, rightFile, leftLabel = leftFile, rightLabel = rightFile, onSave, savePath, saveDisabled, onSaveLeft, leftSaveDisabled, sections, notes, fileNav, width, diffOptions: initialDiffOptions, layout: initialLayout, wrap: initialWrap, language, merge, persistHistory, backup, exportPatch, patchBase: initialPatchBase, watch }) => {
   const { exit } = useApp();
   const [currentLine, setCurrentLine] = useState(0);
   const [currentSection, setCurrentSection] = useState(0);
   const [scrollOffset, setScrollOffset] = useState(0);
   const [diffSections, setDiffSections] = useState<DiffSection[]>([]);
-  const [totalLines, setTotalLines] = useState(0);
+  const [diffTask, setDiffTask] = useState<DiffTask | null>(null); // Large inputs being diffed in a worker
+  const [coarseDiff, setCoarseDiff] = useState(false); // Sections come from the chunked fallback
+  const [coarseOnly, setCoarseOnly] = useState(false); // A background diff of these inputs was cancelled or failed; stay coarse
   const [showHelp, setShowHelp] = useState(false);
   const [foldingEnabled, setFoldingEnabled] = useState(true);
   const [horizontalOffset, setHorizontalOffset] = useState(0);
+  const [diffOptions, setDiffOptions] = useState<DiffOptions>(initialDiffOptions ?? {});
+  const [layout, setLayout] = useState<DiffLayout>(initialLayout ?? DEFAULT_LAYOUT);
+  const [wrapEnabled, setWrapEnabled] = useState(!!initialWrap);
   const contextLines = 3; // Number of context lines to show above/below changes
 
-  // Editing state
-  const [editedRightContent, setEditedRightContent] = useState(rightContent);
-  const [undoStack, setUndoStack] = useState<string[]>([]);
+  // History kept between sessions; patches and merges are never persisted
+  const historyFile = persistHistory && !sections && !merge ? historyPath(leftFile, rightFile) : null;
+  // Edits and history recovered from the last session, for sides whose file is unchanged since
+  const [restored] = useState(() => {
+    const record = historyFile ? loadHistory(historyFile) : null;
+    return { left: restoreSide(record?.left, leftContent), right: restoreSide(record?.right, rightContent) };
+  });
+
+  // Editing state - each side has its own edited text, last saved text and undo/redo history
+  const [editedLeftContent, setEditedLeftContent] = useState(restored.left?.text ?? leftContent);
+  const [editedRightContent, setEditedRightContent] = useState(restored.right?.text ?? rightContent);
+  const [savedLeftContent, setSavedLeftContent] = useState(leftContent);
+  const [savedRightContent, setSavedRightContent] = useState(rightContent);
+  const [histories, setHistories] = useState<Record<Side, EditHistory>>({
+    left: restored.left?.history ?? EMPTY_HISTORY,
+    right: restored.right?.history ?? EMPTY_HISTORY,
+  });
+  // Edits of one insert-mode session undo as one step: 'starting' until its first edit, then 'open'
+  const undoGroup = useRef<'closed' | 'starting' | 'open'>('closed');
+  const [focusedSide, setFocusedSide] = useState<Side>('right'); // Pane that insert mode, undo and ] / [ targets
+  // Paths typed at the save-as prompt for sides read from stdin or a pipe
+  const [savedAs, setSavedAs] = useState<Partial<Record<Side, string>>>({});
+  const [saveAs, setSaveAs] = useState<{ side: Side; path: string } | null>(null);
+  const saveAfterNaming = useRef(false); // Set by the save-as prompt, so saving resumes with the new path
+  const savePaths: Record<Side, string> = { left: savedAs.left ?? leftFile, right: savedAs.right ?? savePath ?? rightFile };
+  // Files on disk as loaded or last saved, to notice other programs changing them
+  const [diskStates, setDiskStates] = useState<Record<Side, DiskState>>(() => ({
+    left: { stamp: stampFile(leftFile), text: leftContent },
+    // A separate output file holds something else than the right side
+    right: savePath === undefined ? { stamp: stampFile(rightFile), text: rightContent } : readDiskState(savePath),
+  }));
+  const backedUp = useRef(new Set<Side>()); // Sides whose .orig copy was made this session
+  const [saveConflicts, setSaveConflicts] = useState<{ side: Side; disk: string }[] | null>(null);
+  // Comparing edits with a changed file, or with their three-way merge with it (`merged`, opened
+  // with the cursor on line `line` of the edits)
+  const [diskView, setDiskView] = useState<{ side: Side; disk: string; merged?: boolean; line?: number } | null>(null);
+
+  // Watching: only a plain pair of files is re-read (not merges, patches or multi-file sessions)
+  const canWatch = !merge && !sections && !fileNav;
+  const watchedPaths = useMemo<Record<Side, string | null>>(() => ({
+    left: canWatch && !isStreamPath(leftFile) ? leftFile : null,
+    right: canWatch && !isStreamPath(rightFile) ? rightFile : null,
+  }), [canWatch, leftFile, rightFile]);
+  const [watching, setWatching] = useState(!!watch);
+  const [diskChanges, setDiskChanges] = useState(0); // Bumped by the watcher; files are read on the next render
+  // The watched files as last loaded, saved or reloaded
+  const [loadedStates, setLoadedStates] = useState<Record<Side, DiskState>>(() => ({
+    left: { stamp: stampFile(leftFile), text: leftContent },
+    right: { stamp: stampFile(rightFile), text: rightContent },
+  }));
+  const [reloadConflict, setReloadConflict] = useState<{ side: Side; disk: string } | null>(null); // Changed under unsaved edits
   const [showQuitConfirm, setShowQuitConfirm] = useState(false);
-  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState<string | null>(
+    editedLeftContent !== leftContent || editedRightContent !== rightContent
+      ? 'Recovered unsaved edits from the last session (Ctrl+Z to undo)'
+      : null
+  );
 
   // Search state
   const [searchMode, setSearchMode] = useState(false);
@@ -40,39 +161,161 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
   const [gotoMode, setGotoMode] = useState(false);
   const [gotoInput, setGotoInput] = useState('');
 
+  // Patch export prompt state
+  const [exportMode, setExportMode] = useState(false);
+  const [exportPath, setExportPath] = useState('');
+  const [patchBase, setPatchBase] = useState<PatchBase>(initialPatchBase ?? 'left');
+
   // Insert mode state
   const [insertMode, setInsertMode] = useState(false);
   const [cursorPos, setCursorPos] = useState(0);
   const [killRing, setKillRing] = useState(''); // For Ctrl+K/Y (kill/yank)
-
-  // Check if file has been edited
-  const isEdited = editedRightContent !== rightContent;
+  const consecutiveKill = useRef(false); // Set by Ctrl+K so the next Ctrl+K appends to the kill ring
+  const cursorAnchor = useRef<{ side: Side; line: number } | null>(null); // File line to show once the diff is recomputed
+
+  // Merge state
+  const [mergeLeft, setMergeLeft] = useState<MergeSide>('base');
+  const shownLeftContent = merge ? merge[mergeLeft] : editedLeftContent;
+  const shownLeftFile = merge ? `${mergeLeft.toUpperCase()}: ${merge[`${mergeLeft}File`]}` : leftLabel;
+  const conflicts = useMemo(() => merge ? findConflicts(editedRightContent) : [], [merge, editedRightContent]);
+
+  // Check if either file has been edited since it was loaded or last saved
+  const isLeftEdited = editedLeftContent !== savedLeftContent;
+  const isRightEdited = editedRightContent !== savedRightContent;
+  const isEdited = isLeftEdited || isRightEdited;
+  // Merge inputs are never edited; the left pane shows one of them
+  const leftEditDisabled = merge ? 'left side is a merge input' : leftSaveDisabled;
+
+  const editedContent: Record<Side, string> = { left: editedLeftContent, right: editedRightContent };
+  const setEditedContent = (side: Side, content: string) =>
+    side === 'left' ? setEditedLeftContent(content) : setEditedRightContent(content);
+  // Replace one side's text, recording the change in that side's history
+  const applyEdit = (side: Side, content: string) => {
+    const before = editedContent[side];
+    const extend = undoGroup.current === 'open';
+    setHistories(prev => ({ ...prev, [side]: recordEdit(prev[side], before, content, extend) }));
+    setEditedContent(side, content);
+    if (undoGroup.current === 'starting') undoGroup.current = 'open';
+  };
+  // Precomputed sections only cover hunks, so there is no full text to edit; the disk comparison is only a view
+  const readOnly = sections !== undefined || diskView !== null;
 
   const terminalHeight = process.stdout.rows || 24;
-  const terminalWidth = process.stdout.columns || 80;
+  const terminalWidth = width ?? (process.stdout.columns || 80);
   // Header with border: 3 lines (top border + content + bottom border)
   // Footer with border: 3 lines (top border + content + bottom border)
-  const viewHeight = terminalHeight - 6;
+  // Optional notes row under the header takes one more line
+  const viewHeight = terminalHeight - 6 - (notes && notes.length > 0 ? 1 : 0);
 
   // Calculate available width per column (accounting for line numbers, prefix, divider)
   // Layout: [lineNum(4)][prefix(2)][content] │ [lineNum(4)][prefix(2)][content]
   // Divider takes 3 chars: " │ "
   const columnWidth = Math.floor((terminalWidth - 3) / 2); // Each side gets half minus divider
   const contentWidth = Math.max(10, columnWidth - 6); // Subtract line number (4) and prefix (2), min 10 chars
-
-  // Helper to compute display line count for a section (accounts for folding)
-  const getSectionDisplayLines = (section: DiffSection) => {
-    const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
-    const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                      section.rightLines.some(l => l.type !== 'equal');
-    const shouldFold = foldingEnabled && !hasChanges && maxLines > (contextLines * 2 + 1);
-    return shouldFold ? (contextLines * 2 + 1) : maxLines;
+  // Unified layout: one full-width column with both line numbers, removals listed before additions
+  const unified = resolveLayout(layout, terminalWidth) === 'unified';
+  const unifiedContentWidth = Math.max(10, terminalWidth - UNIFIED_GUTTER_WIDTH);
+
+  // Display rows one section row takes: one per wrapped chunk of its longest side when wrapping
+  const getRowHeight = (leftLine: DiffLine | undefined, rightLine: DiffLine | undefined) => {
+    if (!wrapEnabled) return 1;
+    if (unified) {
+      const line = unifiedRowLine(leftLine ?? { content: '', type: 'empty' }, rightLine ?? { content: '', type: 'empty' });
+      return countWrappedRows(line.content, unifiedContentWidth);
+    }
+    return Math.max(countWrappedRows(leftLine?.content ?? '', contentWidth), countWrappedRows(rightLine?.content ?? '', contentWidth));
   };
 
+  // Rows of the view; rebuilt only when the diff, the folding or the layout changes
+  const displayModel = useMemo(
+    () => buildDisplayModel(diffSections, foldingEnabled, contextLines, unified),
+    [diffSections, foldingEnabled, unified]
+  );
+  const displayRows = displayModel.rows;
+  const totalLines = displayRows.length;
+
+  // Height of every display line (fold placeholders count as one), only needed while wrapping
+  const rowHeights = useMemo(() => {
+    if (!wrapEnabled) return null;
+    return displayRows.map(row => row.folded ? 1 : getRowHeight(row.left, row.right));
+  }, [displayModel, wrapEnabled, unified, contentWidth, unifiedContentWidth]);
+
+  // Each side is highlighted in its own language; a side without an extension (e.g. /dev/null) borrows the other's
+  const leftLanguage = language !== undefined ? language : detectLanguage(shownLeftFile) ?? detectLanguage(rightLabel);
+  const rightLanguage = language !== undefined ? language : detectLanguage(rightLabel) ?? detectLanguage(shownLeftFile);
+
+  // Each side keeps its highlighter, so after an edit only the changed lines are tokenized again
+  const leftHighlighter = useMemo(() => leftLanguage && createHighlighter(leftLanguage), [leftLanguage]);
+  const rightHighlighter = useMemo(() => rightLanguage && createHighlighter(rightLanguage), [rightLanguage]);
+
+  // Syntax tokens per line, tokenized in file order so multi-line comments and strings carry over
+  const lineTokens = useMemo(() => {
+    const tokens = new Map<DiffLine, Token[]>();
+    const highlightSide = (side: 'leftLines' | 'rightLines', highlighter: Highlighter | null) => {
+      if (!highlighter) return;
+      const lines = diffSections.flatMap(section => section[side].filter(line => line.type !== 'empty'));
+      highlighter.highlight(lines.map(line => line.content)).forEach((found, i) => tokens.set(lines[i], found));
+    };
+    highlightSide('leftLines', leftHighlighter);
+    highlightSide('rightLines', rightHighlighter);
+    return tokens;
+  }, [diffSections, leftHighlighter, rightHighlighter]);
+
+  // Another merge input or the disk version is a new comparison: try an exact diff again
+  useEffect(() => setCoarseOnly(false), [mergeLeft, diskView]);
+
   useEffect(() => {
-    const sections = computeDiffSections(leftContent, editedRightContent);
-    setDiffSections(sections);
-  }, [leftContent, editedRightContent]);
+    const apply = (result: DiffResult) => {
+      setDiffSections(result.sections);
+      setCoarseDiff(result.coarse);
+      if (result.coarse && !coarseDiff && !coarseOnly) {
+        setSaveMessage(`More than ${diffOptions.maxEditLength} lines differ - compared in chunks of lines`);
+      }
+    };
+    if (sections) {
+      apply({ sections, coarse: false });
+      return;
+    }
+
+    const [left, right] = diskView
+      ? [diskView.disk, diskView.side === 'left' ? editedLeftContent : editedRightContent]
+      : [shownLeftContent, editedRightContent];
+    // An edit distance of 0 sends any difference to the chunked diff
+    const options = coarseOnly ? { ...diffOptions, maxEditLength: 0 } : diffOptions;
+    if (coarseOnly || countLines(left) + countLines(right) < WORKER_MIN_LINES) {
+      apply(computeDiff(left, right, options));
+      return;
+    }
+    // Large inputs that barely differ (as after most edits) are diffed at once, the rest in a worker
+    const quick = computeExactDiff(left, right, { ...options, maxEditLength: QUICK_EDIT_LENGTH });
+    if (quick) {
+      apply({ sections: quick, coarse: false });
+      return;
+    }
+
+    // Inputs changing again cancel the running diff, and a result arriving late is dropped
+    let current = true;
+    const task = startDiffTask(left, right, options);
+    setDiffTask(task);
+    task.result.then(
+      result => {
+        if (!current) return;
+        apply(result);
+        setDiffTask(null);
+      },
+      (error: Error) => {
+        if (!current) return;
+        setDiffTask(null);
+        setCoarseOnly(true);
+        setSaveMessage(`Diff failed: ${error.message} - showing a coarse diff of chunks of lines`);
+      }
+    );
+    return () => {
+      current = false;
+      task.cancel();
+      setDiffTask(null);
+    };
+  }, [sections, shownLeftContent, editedLeftContent, editedRightContent, diffOptions, diskView, coarseOnly]);
 
   // Find search matches when query changes
   useEffect(() => {
@@ -82,41 +325,14 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
-    const matches: number[] = [];
-    let globalLineIndex = 0;
+    // Lines behind a fold placeholder are not searched
     const query = searchQuery.toLowerCase();
-
-    for (const section of diffSections) {
-      const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
-      const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                        section.rightLines.some(l => l.type !== 'equal');
-      const shouldFold = foldingEnabled && !hasChanges && maxLines > (contextLines * 2 + 1);
-
-      for (let i = 0; i < maxLines; i++) {
-        // Skip folded lines for matching
-        if (shouldFold && i >= contextLines && i < maxLines - contextLines) {
-          continue;
-        }
-
-        const leftLine = section.leftLines[i];
-        const rightLine = section.rightLines[i];
-
-        const leftMatch = leftLine && leftLine.content.toLowerCase().includes(query);
-        const rightMatch = rightLine && rightLine.content.toLowerCase().includes(query);
-
-        if (leftMatch || rightMatch) {
-          matches.push(globalLineIndex);
-        }
-
-        globalLineIndex++;
-
-        // Account for fold placeholder line
-        if (shouldFold && i === contextLines - 1) {
-          globalLineIndex++; // fold placeholder
-          i = maxLines - contextLines - 1; // skip to end context
-        }
+    const matches: number[] = [];
+    displayRows.forEach((row, index) => {
+      if (row.left?.content.toLowerCase().includes(query) || row.right?.content.toLowerCase().includes(query)) {
+        matches.push(index);
       }
-    }
+    });
 
     setSearchMatches(matches);
     setCurrentMatchIndex(0);
@@ -125,13 +341,7 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
     if (matches.length > 0) {
       setCurrentLine(matches[0]);
     }
-  }, [searchQuery, diffSections, foldingEnabled]);
-
-  // Calculate total display lines accounting for folding
-  useEffect(() => {
-    const total = diffSections.reduce((sum, section) => sum + getSectionDisplayLines(section), 0);
-    setTotalLines(total);
-  }, [diffSections, foldingEnabled]);
+  }, [searchQuery, displayModel]);
 
   // Clamp currentLine if it exceeds totalLines (e.g., when folding is toggled)
   useEffect(() => {
@@ -148,21 +358,15 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
     }
   }, [saveMessage]);
 
-  // Get current line info (section index and line within section)
+  // Get current line info (section index and display line within section)
   const getCurrentLineInfo = useCallback(() => {
-    let lineCount = 0;
-    for (let i = 0; i < diffSections.length; i++) {
-      const sectionLines = getSectionDisplayLines(diffSections[i]);
-      if (currentLine < lineCount + sectionLines) {
-        return { sectionIndex: i, lineInSection: currentLine - lineCount };
-      }
-      lineCount += sectionLines;
-    }
-    return null;
-  }, [currentLine, diffSections, foldingEnabled]);
+    const row = displayRows[currentLine];
+    if (!row) return null;
+    return { sectionIndex: row.section, lineInSection: currentLine - displayModel.sectionStarts[row.section] };
+  }, [currentLine, displayModel]);
 
-  // Copy diff from left to right for current section
-  const copyLeftToRight = useCallback(() => {
+  // Copy the current section from the other side over `target` (] pushes left→right, [ pushes right→left)
+  const copySection = useCallback((target: Side) => {
     const info = getCurrentLineInfo();
     if (!info) return;
 
@@ -170,210 +374,389 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
     if (!section) return;
 
     // Only copy if this section has changes
-    const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                      section.rightLines.some(l => l.type !== 'equal');
+    const hasChanges = sectionHasChanges(section);
     if (!hasChanges) return;
 
-    // Save current state for undo
-    setUndoStack(prev => [...prev, editedRightContent]);
-
-    // Convert editedRightContent to lines array
-    const rightLines = editedRightContent.split('\n');
-
-    // Find the actual line numbers for this section
-    // We need to map display lines back to actual right file lines
-    let actualRightLineStart = 0;
-    let count = 0;
-    for (let i = 0; i < info.sectionIndex; i++) {
-      for (const line of diffSections[i].rightLines) {
-        if (line.type !== 'empty') {
-          actualRightLineStart++;
-        }
-      }
-    }
-
-    // Count non-empty right lines in this section
-    const rightLinesToRemove = section.rightLines.filter(l => l.type !== 'empty').length;
+    const linesOf = (s: DiffSection, side: Side) => side === 'left' ? s.leftLines : s.rightLines;
+    const source: Side = target === 'right' ? 'left' : 'right';
 
-    // Get the content from left side (non-empty lines only)
-    const leftLinesToAdd = section.leftLines
+    // Sections of a whole-file diff start where the lines before them end
+    const actualLineStart = target === 'left' ? section.leftStart : section.rightStart;
+    const linesToRemove = linesOf(section, target).filter(l => l.type !== 'empty').length;
+    const linesToAdd = linesOf(section, source)
       .filter(l => l.type !== 'empty')
       .map(l => l.content);
 
-    // Replace the right side lines with left side lines
-    rightLines.splice(actualRightLineStart, rightLinesToRemove, ...leftLinesToAdd);
-
-    setEditedRightContent(rightLines.join('\n'));
-    setSaveMessage('Copied diff from left to right');
-  }, [getCurrentLineInfo, diffSections, editedRightContent]);
+    const lines = editedContent[target].split('\n');
+    lines.splice(actualLineStart, linesToRemove, ...linesToAdd);
+    applyEdit(target, lines.join('\n'));
+    setSaveMessage(`Copied diff from ${source} to ${target}`);
+  }, [getCurrentLineInfo, diffSections, editedLeftContent, editedRightContent]);
+
+  // Save every edited side (the right side when neither is), returns whether all were written
+  // Files changed on disk since they were loaded are not overwritten unless `overwrite` is set;
+  // they are listed in the save conflict prompt instead
+  const saveFile = useCallback((overwrite = false): boolean => {
+    const sides: Side[] = [];
+    if (isLeftEdited) sides.push('left');
+    if (isRightEdited || !isLeftEdited) sides.push('right');
+
+    for (const side of sides) {
+      const disabled = side === 'left' ? leftEditDisabled : saveDisabled;
+      if (disabled) {
+        setSaveMessage(`Cannot save: ${disabled}`);
+        return false;
+      }
+    }
 
-  // Copy diff from right to left (undo a copy - restore original right content for section)
-  const copyRightToLeft = useCallback(() => {
-    const info = getCurrentLineInfo();
-    if (!info) return;
+    // Stdin and pipes can't be written back; ask for a file first
+    const unnamed = sides.find(side => isStreamPath(savePaths[side]));
+    if (unnamed) {
+      setSaveAs({ side: unnamed, path: '' });
+      return false;
+    }
 
-    const section = diffSections[info.sectionIndex];
-    if (!section) return;
+    if (!overwrite) {
+      try {
+        const changed = sides.flatMap(side => {
+          const disk = readChangedFile(savePaths[side], diskStates[side]);
+          return disk === null ? [] : [{ side, disk }];
+        });
+        if (changed.length > 0) {
+          setSaveConflicts(changed);
+          return false;
+        }
+      } catch (error) {
+        setSaveMessage(`Error saving: ${error}`);
+        return false;
+      }
+    }
 
-    // Save current state for undo
-    setUndoStack(prev => [...prev, editedRightContent]);
+    const savedFiles: string[] = [];
+    for (const side of sides) {
+      try {
+        writeFileAtomic(savePaths[side], editedContent[side], { backup: backup && !backedUp.current.has(side) });
+      } catch (error) {
+        setSaveMessage(`Error saving: ${error}`);
+        return false;
+      }
+      backedUp.current.add(side);
+      (side === 'left' ? onSaveLeft : onSave)?.(editedContent[side]);
+      (side === 'left' ? setSavedLeftContent : setSavedRightContent)(editedContent[side]);
+      const state = { stamp: stampFile(savePaths[side]), text: editedContent[side] };
+      setDiskStates(prev => ({ ...prev, [side]: state }));
+      if (savePaths[side] === watchedPaths[side]) setLoadedStates(prev => ({ ...prev, [side]: state }));
+      savedFiles.push(savePaths[side]);
+    }
 
-    // Get original right content for this section
-    const originalRightLines = rightContent.split('\n');
-    const currentRightLines = editedRightContent.split('\n');
+    const saved = `Saved to ${savedFiles.join(' and ')}`;
+    setSaveMessage(conflicts.length > 0 ? `${saved} (${conflicts.length} unresolved conflicts)` : saved);
+    return true;
+  }, [editedLeftContent, editedRightContent, isLeftEdited, isRightEdited, savedAs, savePath, diskStates, onSave, onSaveLeft, saveDisabled, leftEditDisabled, conflicts, backup]);
 
-    // Find the actual line numbers for this section in original
-    let originalRightLineStart = 0;
-    const originalSections = computeDiffSections(leftContent, rightContent);
-    for (let i = 0; i < Math.min(info.sectionIndex, originalSections.length); i++) {
-      for (const line of originalSections[i].rightLines) {
-        if (line.type !== 'empty') {
-          originalRightLineStart++;
-        }
-      }
+  useEffect(() => {
+    if (!saveAfterNaming.current) return;
+    saveAfterNaming.current = false;
+    saveFile();
+  }, [savedAs, diskStates]);
+
+  // Record `disk` as a watched file's content and show `text` on its side: the disk version, a
+  // merge with it, or null to keep the edits (saving then replaces the disk version without asking).
+  // The cursor stays on what was line `line` of the edits.
+  const acceptDiskVersion = (side: Side, disk: string, text: string | null, line = locateCurrentLine(side)?.index) => {
+    const path = watchedPaths[side]!;
+    const state = { stamp: stampFile(path), text: disk };
+    setLoadedStates(prev => ({ ...prev, [side]: state }));
+    if (savePaths[side] === path) setDiskStates(prev => ({ ...prev, [side]: state }));
+    if (text === null) return;
+
+    setCoarseOnly(false); // The reloaded text gets an exact diff again
+    if (text !== editedContent[side]) {
+      if (line !== undefined) cursorAnchor.current = { side, line: mapLine(editedContent[side], text, line) };
+      applyEdit(side, text);
     }
+    (side === 'left' ? setSavedLeftContent : setSavedRightContent)(disk);
+  };
 
-    // Get original right lines for this section
-    const origSection = originalSections[info.sectionIndex];
-    if (!origSection) return;
+  // Three-way merge of the edits and the changed file against the text they both started from
+  const mergeWithDisk = (side: Side, disk: string): string => {
+    const chunks = mergeThreeWay(loadedStates[side].text ?? '', editedContent[side], disk, diffOptions.algorithm);
+    return formatMerge(chunks, { local: 'yours', base: 'loaded', remote: 'disk' });
+  };
 
-    const originalLinesToRestore = origSection.rightLines
-      .filter(l => l.type !== 'empty')
-      .map(l => l.content);
+  // Poll the watched files; what changed is read on the next render, which sees the current edits
+  useEffect(() => {
+    const paths = [watchedPaths.left, watchedPaths.right].filter((path): path is string => path !== null);
+    if (!watching || paths.length === 0) return;
+    setDiskChanges(count => count + 1); // Catch up on changes made while not watching
+    return watchFiles(paths, () => setDiskChanges(count => count + 1));
+  }, [watching, watchedPaths]);
 
-    // Find current position in edited content
-    let currentRightLineStart = 0;
-    for (let i = 0; i < info.sectionIndex; i++) {
-      for (const line of diffSections[i].rightLines) {
-        if (line.type !== 'empty') {
-          currentRightLineStart++;
-        }
+  // Reload changed files; a side with unsaved edits asks first
+  useEffect(() => {
+    if (diskChanges === 0) return;
+    for (const side of ['left', 'right'] as Side[]) {
+      const path = watchedPaths[side];
+      if (!path) continue;
+      let disk: string | null;
+      try {
+        disk = readChangedFile(path, loadedStates[side]);
+      } catch {
+        continue; // Unreadable for now; the next change retries
+      }
+      if (disk === null) continue;
+      const saved = side === 'left' ? savedLeftContent : savedRightContent;
+      if (editedContent[side] !== saved && disk !== editedContent[side]) {
+        setReloadConflict(prev => !prev || prev.side === side ? { side, disk } : prev);
+      } else {
+        acceptDiskVersion(side, disk, disk);
+        setSaveMessage(`Reloaded ${path}`);
       }
     }
+  }, [diskChanges]);
 
-    const currentLinesToRemove = section.rightLines.filter(l => l.type !== 'empty').length;
+  // Undo or redo the last step on the focused side
+  const stepHistory = useCallback((direction: 'undo' | 'redo') => {
+    const step = (direction === 'undo' ? undoEdit : redoEdit)(histories[focusedSide], editedContent[focusedSide]);
+    if (!step) {
+      setSaveMessage(`Nothing to ${direction} on the ${focusedSide}`);
+      return;
+    }
+    setHistories(prev => ({ ...prev, [focusedSide]: step.history }));
+    setEditedContent(focusedSide, step.text);
+    cursorAnchor.current = { side: focusedSide, line: step.line };
+    setSaveMessage(`${direction === 'undo' ? 'Undone' : 'Redone'} (${focusedSide})`);
+  }, [focusedSide, histories, editedLeftContent, editedRightContent]);
+
+  // Write the history file (--history) with whatever is unsaved relative to the files on disk;
+  // `justSaved` when the edited text was written this turn, before the saved state updates
+  const persistEditHistory = (justSaved = false) => {
+    if (!historyFile) return;
+    try {
+      saveHistory(historyFile, {
+        left: recordSide(justSaved ? editedLeftContent : savedLeftContent, editedLeftContent, histories.left),
+        right: recordSide(justSaved ? editedRightContent : savedRightContent, editedRightContent, histories.right),
+      });
+    } catch (error) {
+      setSaveMessage(`Error saving history: ${error}`);
+    }
+  };
 
-    // Replace current lines with original lines
-    currentRightLines.splice(currentRightLineStart, currentLinesToRemove, ...originalLinesToRestore);
+  // Written shortly after each edit, so even a killed session can be recovered
+  useEffect(() => {
+    if (!historyFile) return;
+    const timer = setTimeout(persistEditHistory, 1000);
+    return () => clearTimeout(timer);
+  }, [histories, savedLeftContent, savedRightContent]);
 
-    setEditedRightContent(currentRightLines.join('\n'));
-    setSaveMessage('Restored original right content');
-  }, [getCurrentLineInfo, diffSections, editedRightContent, rightContent, leftContent]);
+  // Unified diff from the chosen base to the edited right side, named for `git apply -p1`
+  const buildPatch = (base: PatchBase): string => base === 'left'
+    ? formatPatch(leftContent, editedRightContent, `a/${leftLabel}`, `b/${rightLabel}`)
+    : formatPatch(rightContent, editedRightContent, `a/${rightLabel}`, `b/${rightLabel}`);
 
-  // Save edited content to file
-  const saveFile = useCallback(() => {
+  const writePatch = (path: string, patch: string): boolean => {
     try {
-      if (onSave) {
-        onSave(editedRightContent);
-      } else {
-        writeFileSync(rightFile, editedRightContent);
-      }
-      setSaveMessage(`Saved to ${rightFile}`);
+      writeFileAtomic(path, patch);
+      return true;
     } catch (error) {
-      setSaveMessage(`Error saving: ${error}`);
+      setSaveMessage(`Error writing patch: ${error}`);
+      return false;
     }
-  }, [editedRightContent, rightFile, onSave]);
+  };
 
-  // Undo last edit
-  const undoLastEdit = useCallback(() => {
-    if (undoStack.length === 0) {
-      setSaveMessage('Nothing to undo');
-      return;
-    }
-    const previousState = undoStack[undoStack.length - 1];
-    setUndoStack(prev => prev.slice(0, -1));
-    setEditedRightContent(previousState);
-    setSaveMessage('Undone');
-  }, [undoStack]);
+  const quit = (justSaved = false) => {
+    persistEditHistory(justSaved);
+    // Without changes there is nothing to export, and an existing patch is left alone
+    const patch = exportPatch ? buildPatch(patchBase) : '';
+    if (exportPatch && patch) writePatch(exportPatch, patch);
+    exit();
+  };
 
   // Handle quit with confirmation
   const handleQuit = useCallback(() => {
     if (isEdited) {
       setShowQuitConfirm(true);
     } else {
-      exit();
-    }
-  }, [isEdited, exit]);
-
-  // Get the actual right file line number for the current display line
-  const getCurrentRightLineIndex = useCallback((): number | null => {
-    let lineCount = 0;
-    let rightLineIndex = 0;
-
-    for (const section of diffSections) {
-      const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
-      const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                        section.rightLines.some(l => l.type !== 'equal');
-      const shouldFold = foldingEnabled && !hasChanges && maxLines > (contextLines * 2 + 1);
-
-      for (let i = 0; i < maxLines; i++) {
-        if (shouldFold && i >= contextLines && i < maxLines - contextLines) {
-          // Folded region - skip these lines
-          const rightLine = section.rightLines[i];
-          if (rightLine && rightLine.type !== 'empty') rightLineIndex++;
-          continue;
-        }
-
-        if (lineCount === currentLine) {
-          const rightLine = section.rightLines[i];
-          if (rightLine && rightLine.type !== 'empty') {
-            return rightLineIndex;
-          }
-          return null; // Current line is empty on right side
-        }
-
-        const rightLine = section.rightLines[i];
-        if (rightLine && rightLine.type !== 'empty') rightLineIndex++;
-        lineCount++;
-
-        // Account for fold placeholder
-        if (shouldFold && i === contextLines - 1) {
-          lineCount++; // fold placeholder
-          i = maxLines - contextLines - 1;
-        }
-      }
+      quit();
     }
-    return null;
-  }, [currentLine, diffSections, foldingEnabled]);
-
-  // Get current right line content
-  const getCurrentRightLineContent = useCallback((): string => {
-    const idx = getCurrentRightLineIndex();
+  }, [isEdited, quit]);
+
+  // File line on one side at the current display line: `index` counts that side's lines before
+  // the cursor row, `real` is false on a padding row (where index is the insertion point)
+  const locateCurrentLine = useCallback((side: Side): { index: number; real: boolean } | null => {
+    const row = displayRows[currentLine];
+    if (!row || row.folded) return null; // On a fold placeholder
+    return side === 'left'
+      ? { index: row.leftIndex, real: isRealLine(row.left) }
+      : { index: row.rightIndex, real: isRealLine(row.right) };
+  }, [currentLine, displayModel]);
+
+  // Get the actual file line number on one side for the current display line
+  const getCurrentLineIndex = useCallback((side: Side): number | null => {
+    const location = locateCurrentLine(side);
+    return location && location.real ? location.index : null; // null: no line on this side here
+  }, [locateCurrentLine]);
+
+  // Display line showing the given file line of one side (the fold placeholder if it is folded away)
+  const getDisplayLineForLine = useCallback((side: Side, target: number): number => {
+    return findRowForLine(displayModel, side, target);
+  }, [displayModel]);
+
+  // Once an edit's diff is recomputed, put the cursor back on the edited file line
+  useEffect(() => {
+    const anchor = cursorAnchor.current;
+    if (!anchor) return;
+    cursorAnchor.current = null;
+    setCurrentLine(getDisplayLineForLine(anchor.side, anchor.line));
+  }, [displayModel]);
+
+  // Conflict block whose display lines include the cursor
+  const getConflictAtCursor = useCallback(() => {
+    return conflicts.find(conflict =>
+      getDisplayLineForLine('right', conflict.start) <= currentLine && currentLine <= getDisplayLineForLine('right', conflict.end));
+  }, [conflicts, currentLine, getDisplayLineForLine]);
+
+  // Replace the conflict under the cursor with the chosen side(s)
+  const resolveConflictAtCursor = useCallback((choice: ConflictChoice) => {
+    const conflict = getConflictAtCursor();
+    if (!conflict) {
+      setSaveMessage('Not on a conflict - use x / X to jump to one');
+      return;
+    }
+    applyEdit('right', resolveConflict(editedRightContent, conflict, choice));
+    const remaining = conflicts.length - 1;
+    setSaveMessage(`Took ${choice === 'both' ? 'local + remote' : choice} (${remaining === 0 ? 'all conflicts resolved' : `${remaining} left`})`);
+  }, [getConflictAtCursor, editedRightContent, conflicts]);
+
+  // Get current line content on the focused side
+  const getCurrentLineContent = useCallback((): string => {
+    const idx = getCurrentLineIndex(focusedSide);
     if (idx === null) return '';
-    const lines = editedRightContent.split('\n');
+    const lines = editedContent[focusedSide].split('\n');
     return lines[idx] || '';
-  }, [getCurrentRightLineIndex, editedRightContent]);
+  }, [getCurrentLineIndex, focusedSide, editedLeftContent, editedRightContent]);
 
-  // Update current right line content
-  const setCurrentRightLineContent = useCallback((newContent: string) => {
-    const idx = getCurrentRightLineIndex();
+  // Update current line content on the focused side
+  const setCurrentLineContent = useCallback((newContent: string) => {
+    const idx = getCurrentLineIndex(focusedSide);
     if (idx === null) return;
 
-    // Save for undo
-    setUndoStack(prev => [...prev, editedRightContent]);
-
-    const lines = editedRightContent.split('\n');
+    const lines = editedContent[focusedSide].split('\n');
     lines[idx] = newContent;
-    setEditedRightContent(lines.join('\n'));
-  }, [getCurrentRightLineIndex, editedRightContent]);
+    applyEdit(focusedSide, lines.join('\n'));
+    cursorAnchor.current = { side: focusedSide, line: idx };
+  }, [getCurrentLineIndex, focusedSide, editedLeftContent, editedRightContent]);
+
+  // Apply a line-level edit to the focused side, keeping the cursor on the line it leaves it on
+  const applyLineEdit = useCallback((result: EditResult) => {
+    applyEdit(focusedSide, result.text);
+    cursorAnchor.current = { side: focusedSide, line: result.line };
+    setCursorPos(result.column);
+  }, [focusedSide, editedLeftContent, editedRightContent]);
+
+  // Kill text into the kill ring, appending to it after another kill
+  const kill = (killed: string, append: boolean) => {
+    setKillRing(append ? killRing + killed : killed);
+    consecutiveKill.current = true;
+  };
 
   useEffect(() => {
     // Auto-scroll to keep current line visible
     if (currentLine < scrollOffset) {
       setScrollOffset(currentLine);
+    } else if (rowHeights) {
+      // Wrapped lines take several rows: scroll only if the current line no longer fits entirely
+      let used = 0;
+      for (let row = scrollOffset; row <= currentLine && used <= viewHeight; row++) used += rowHeights[row] ?? 1;
+      if (used <= viewHeight) return;
+      let offset = currentLine;
+      used = rowHeights[currentLine] ?? 1;
+      while (offset > 0 && used + (rowHeights[offset - 1] ?? 1) <= viewHeight) {
+        offset--;
+        used += rowHeights[offset] ?? 1;
+      }
+      setScrollOffset(offset);
     } else if (currentLine >= scrollOffset + viewHeight) {
       setScrollOffset(currentLine - viewHeight + 1);
     }
-  }, [currentLine, viewHeight]);
+  }, [currentLine, viewHeight, rowHeights]);
 
   useInput((input: string, key: any) => {
+    const appendKill = consecutiveKill.current;
+    consecutiveKill.current = false;
+
+    // While a large diff is computed the rows on screen are stale, so only cancelling and
+    // quitting are allowed
+    if (diffTask && !showQuitConfirm) {
+      if (key.escape) {
+        setCoarseOnly(true);
+        setSaveMessage('Diff cancelled - showing a coarse diff of chunks of lines');
+      } else if (input === 'q') {
+        handleQuit();
+      }
+      return;
+    }
+
+    // Handle the prompt for a watched file changed under unsaved edits (not while previewing the merge)
+    if (reloadConflict && !diskView) {
+      const { side, disk } = reloadConflict;
+      if (input === 'k' || input === 'K' || key.escape) {
+        setReloadConflict(null);
+        acceptDiskVersion(side, disk, null);
+        setSaveMessage('Kept your edits - saving replaces the disk version');
+        setDiskChanges(count => count + 1); // The other side may be waiting
+      } else if (input === 't' || input === 'T') {
+        setReloadConflict(null);
+        acceptDiskVersion(side, disk, disk);
+        setSaveMessage(`Took the disk version of ${watchedPaths[side]} (Ctrl+Z brings your edits back)`);
+        setDiskChanges(count => count + 1);
+      } else if (input === 'v' || input === 'V') {
+        const line = locateCurrentLine(side)?.index;
+        if (line !== undefined) cursorAnchor.current = { side: 'right', line };
+        setDiskView({ side, disk: mergeWithDisk(side, disk), merged: true, line });
+      }
+      return;
+    }
+
+    // Take the three-way merge being previewed
+    if (reloadConflict && diskView?.merged && key.return) {
+      const merged = diskView.disk;
+      setDiskView(null);
+      setReloadConflict(null);
+      // The comparison shows the edits in its right pane; on a fold, use the line it opened on
+      acceptDiskVersion(reloadConflict.side, reloadConflict.disk, merged, locateCurrentLine('right')?.index ?? diskView.line);
+      const conflictCount = findConflicts(merged).length;
+      setSaveMessage(conflictCount > 0 ? `Merged with the disk version (${conflictCount} conflicts marked)` : 'Merged with the disk version');
+      setDiskChanges(count => count + 1);
+      return;
+    }
+
+    // Handle the prompt for files changed on disk
+    if (saveConflicts) {
+      if (input === 'o' || input === 'O') {
+        setSaveConflicts(null);
+        saveFile(true);
+      } else if (input === 'd' || input === 'D') {
+        setSaveConflicts(null);
+        const located = locateCurrentLine(saveConflicts[0].side);
+        if (located) cursorAnchor.current = { side: 'right', line: located.index };
+        setDiskView(saveConflicts[0]);
+      } else if (key.escape || input === 'c' || input === 'C') {
+        setSaveConflicts(null);
+      }
+      return;
+    }
+
     // Handle quit confirmation modal
     if (showQuitConfirm) {
       if (input === 'y' || input === 'Y') {
-        saveFile();
-        exit();
+        if (saveFile()) {
+          quit(true);
+        } else {
+          setShowQuitConfirm(false);
+        }
       } else if (input === 'n' || input === 'N') {
-        exit();
+        quit();
       } else if (key.escape || input === 'c' || input === 'C') {
         setShowQuitConfirm(false);
       }
@@ -447,12 +830,89 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
+    // Handle the save-as prompt; the save starts over once the path is set
+    if (saveAs) {
+      if (key.escape) {
+        setSaveAs(null);
+        setSaveMessage('Not saved');
+        return;
+      }
+      if (key.return) {
+        if (!saveAs.path) return;
+        if (isStreamPath(saveAs.path)) {
+          setSaveMessage(`Cannot save to ${saveAs.path}`);
+          return;
+        }
+        setSavedAs(prev => ({ ...prev, [saveAs.side]: saveAs.path }));
+        // The file named here is what gets overwritten, not something that changed under us
+        try {
+          setDiskStates(prev => ({ ...prev, [saveAs.side]: readDiskState(saveAs.path) }));
+        } catch (error) {
+          setSaveMessage(`Error saving: ${error}`);
+          setSaveAs(null);
+          return;
+        }
+        setSaveAs(null);
+        saveAfterNaming.current = true;
+        return;
+      }
+      if (key.backspace || key.delete) {
+        setSaveAs({ ...saveAs, path: saveAs.path.slice(0, -1) });
+        return;
+      }
+      if (input && !key.ctrl && !key.meta) {
+        setSaveAs({ ...saveAs, path: saveAs.path + input });
+      }
+      return;
+    }
+
+    // Handle patch export prompt input
+    if (exportMode) {
+      if (key.escape) {
+        setExportMode(false);
+        return;
+      }
+      if (key.tab) {
+        setPatchBase(patchBase === 'left' ? 'right' : 'left');
+        return;
+      }
+      if (key.return) {
+        if (!exportPath) return;
+        const patch = buildPatch(patchBase);
+        if (!patch) {
+          setSaveMessage('No changes to export');
+        } else if (writePatch(exportPath, patch)) {
+          setSaveMessage(`Wrote patch to ${exportPath}`);
+        }
+        setExportMode(false);
+        return;
+      }
+      if (key.backspace || key.delete) {
+        setExportPath(prev => prev.slice(0, -1));
+        return;
+      }
+      if (input && !key.ctrl && !key.meta) {
+        setExportPath(prev => prev + input);
+      }
+      return;
+    }
+
     // Handle insert mode input
     if (insertMode) {
-      const lineContent = getCurrentRightLineContent();
+      const lineContent = getCurrentLineContent();
+      const lineIndex = getCurrentLineIndex(focusedSide);
+      const text = editedContent[focusedSide];
 
       if (key.escape) {
         setInsertMode(false);
+        undoGroup.current = 'closed';
+        return;
+      }
+      // An edit that made the line unchanged can fold it away
+      if (lineIndex === null) {
+        setInsertMode(false);
+        undoGroup.current = 'closed';
+        setSaveMessage('Line was folded away - left insert mode');
         return;
       }
 
@@ -467,25 +927,29 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
         setCursorPos(lineContent.length);
         return;
       }
-      // Ctrl+K - kill to end of line
+      // Ctrl+K - kill to end of line (at the end, kill the line break)
       if (key.ctrl && input === 'k') {
-        const killed = lineContent.slice(cursorPos);
-        setKillRing(killed);
-        setCurrentRightLineContent(lineContent.slice(0, cursorPos));
+        if (cursorPos < lineContent.length) {
+          kill(lineContent.slice(cursorPos), appendKill);
+          setCurrentLineContent(lineContent.slice(0, cursorPos));
+        } else {
+          kill('\n', appendKill);
+          applyLineEdit(joinLines(text, lineIndex));
+        }
         return;
       }
-      // Ctrl+Y - yank (paste)
+      // Ctrl+Y - yank (paste); killed line breaks split the line
       if (key.ctrl && input === 'y') {
-        const newContent = lineContent.slice(0, cursorPos) + killRing + lineContent.slice(cursorPos);
-        setCurrentRightLineContent(newContent);
-        setCursorPos(cursorPos + killRing.length);
+        applyLineEdit(insertText(text, lineIndex, cursorPos, killRing));
         return;
       }
-      // Ctrl+D - delete character forward
+      // Ctrl+D - delete character forward (at the end, join the next line)
       if (key.ctrl && input === 'd') {
         if (cursorPos < lineContent.length) {
           const newContent = lineContent.slice(0, cursorPos) + lineContent.slice(cursorPos + 1);
-          setCurrentRightLineContent(newContent);
+          setCurrentLineContent(newContent);
+        } else {
+          applyLineEdit(joinLines(text, lineIndex));
         }
         return;
       }
@@ -498,7 +962,7 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
         const killed = lineContent.slice(pos, cursorPos);
         setKillRing(killed);
         const newContent = lineContent.slice(0, pos) + lineContent.slice(cursorPos);
-        setCurrentRightLineContent(newContent);
+        setCurrentLineContent(newContent);
         setCursorPos(pos);
         return;
       }
@@ -513,38 +977,38 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
         return;
       }
 
-      // Backspace
+      // Backspace (at column 0, join onto the previous line)
       if (key.backspace) {
         if (cursorPos > 0) {
           const newContent = lineContent.slice(0, cursorPos - 1) + lineContent.slice(cursorPos);
-          setCurrentRightLineContent(newContent);
+          setCurrentLineContent(newContent);
           setCursorPos(cursorPos - 1);
+        } else if (lineIndex > 0) {
+          applyLineEdit(joinLines(text, lineIndex - 1));
         }
         return;
       }
 
-      // Delete
+      // Delete (at the end, join the next line)
       if (key.delete) {
         if (cursorPos < lineContent.length) {
           const newContent = lineContent.slice(0, cursorPos) + lineContent.slice(cursorPos + 1);
-          setCurrentRightLineContent(newContent);
+          setCurrentLineContent(newContent);
+        } else {
+          applyLineEdit(joinLines(text, lineIndex));
         }
         return;
       }
 
-      // Enter - exit insert mode and move to next line
+      // Enter - split the line at the cursor
       if (key.return) {
-        setInsertMode(false);
-        setCurrentLine(Math.min(totalLines - 1, currentLine + 1));
-        setCursorPos(0);
+        applyLineEdit(splitLine(text, lineIndex, cursorPos));
         return;
       }
 
-      // Regular character input
+      // Regular character input (a paste may span lines)
       if (input && !key.ctrl && !key.meta) {
-        const newContent = lineContent.slice(0, cursorPos) + input + lineContent.slice(cursorPos);
-        setCurrentRightLineContent(newContent);
-        setCursorPos(cursorPos + input.length);
+        applyLineEdit(insertText(text, lineIndex, cursorPos, input));
       }
       return;
     }
@@ -570,6 +1034,17 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
+    // Export the edits as a patch (E)
+    if (input === 'E') {
+      if (readOnly) {
+        setSaveMessage('Read-only view');
+        return;
+      }
+      setExportMode(true);
+      setExportPath(exportPatch ?? `${basename(rightLabel)}.patch`);
+      return;
+    }
+
     // Enter go-to-line mode (: or Ctrl+G or g)
     if (input === ':' || input === 'g' || input === 'G' || (key.ctrl && input === 'g')) {
       setGotoMode(true);
@@ -593,6 +1068,14 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       }
     }
 
+    // Leave the disk comparison with Escape, on the line it showed of the edits
+    if (key.escape && diskView) {
+      const located = locateCurrentLine('right');
+      if (located) cursorAnchor.current = { side: diskView.side, line: located.index };
+      setDiskView(null);
+      return;
+    }
+
     // Clear search with Escape
     if (key.escape && searchQuery) {
       setSearchQuery('');
@@ -600,15 +1083,94 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
+    // Switch files in multi-file sessions (Tab / Shift+Tab)
+    if (key.tab && fileNav) {
+      if (isEdited) {
+        setSaveMessage('Unsaved changes - save (Ctrl+S) before switching files');
+      } else if (key.shift) {
+        fileNav.onPrev();
+      } else {
+        fileNav.onNext();
+      }
+      return;
+    }
+
+    // Pick a file from the file list (L)
+    if (input === 'L' && fileNav?.onOpenList) {
+      if (isEdited) {
+        setSaveMessage('Unsaved changes - save (Ctrl+S) before switching files');
+      } else {
+        fileNav.onOpenList();
+      }
+      return;
+    }
+
+    // Editing commands are unavailable when viewing a patch
+    if (readOnly && (input === 'i' || input === 'e' || input === ']' || input === '>' ||
+        input === '[' || input === '<' || input === 't' || input === 'o' || input === 'O' ||
+        (key.ctrl && (input === 's' || input === 'z' || input === 'r' || input === 'k' || input === 'y')))) {
+      setSaveMessage('Read-only view');
+      return;
+    }
+
+    // Switch the focused pane (t)
+    if (input === 't') {
+      if (focusedSide === 'right' && leftEditDisabled) {
+        setSaveMessage(`Cannot edit the left side: ${leftEditDisabled}`);
+        return;
+      }
+      const side = focusedSide === 'right' ? 'left' : 'right';
+      setFocusedSide(side);
+      setSaveMessage(`Editing the ${side} side`);
+      return;
+    }
+
     // Enter insert mode (i or e)
     if (input === 'i' || input === 'e') {
-      const idx = getCurrentRightLineIndex();
+      const idx = getCurrentLineIndex(focusedSide);
       if (idx !== null) {
         setInsertMode(true);
-        setCursorPos(getCurrentRightLineContent().length); // Start at end of line
+        undoGroup.current = 'starting';
+        setCursorPos(getCurrentLineContent().length); // Start at end of line
       } else {
-        setSaveMessage('Cannot edit - no right line at cursor');
+        setSaveMessage(`Cannot edit - no ${focusedSide} line at cursor`);
+      }
+      return;
+    }
+
+    // Open a line below (o) or above (O) the cursor and edit it
+    if (input === 'o' || input === 'O') {
+      const location = locateCurrentLine(focusedSide);
+      if (!location) {
+        setSaveMessage('Cannot open a line on a folded region');
+        return;
+      }
+      // On a padding row both open at the insertion point
+      const below = input === 'o' && location.real;
+      applyLineEdit(openLine(editedContent[focusedSide], location.index + (below ? 1 : 0)));
+      undoGroup.current = 'open'; // Undo removes the opened line with what was typed on it
+      setInsertMode(true);
+      return;
+    }
+
+    // Delete the current line into the kill ring (Ctrl+K); repeated deletes collect the lines
+    if (key.ctrl && input === 'k') {
+      const idx = getCurrentLineIndex(focusedSide);
+      if (idx === null) {
+        setSaveMessage(`Cannot delete - no ${focusedSide} line at cursor`);
+        return;
       }
+      const result = deleteLine(editedContent[focusedSide], idx);
+      kill(result.removed + '\n', appendKill);
+      applyLineEdit(result);
+      return;
+    }
+
+    // Yank the kill ring above the current line (Ctrl+Y)
+    if (key.ctrl && input === 'y') {
+      const location = locateCurrentLine(focusedSide);
+      if (!location || !killRing) return;
+      applyLineEdit(insertText(editedContent[focusedSide], location.index, 0, killRing));
       return;
     }
 
@@ -618,21 +1180,29 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
-    // Undo (Ctrl+Z)
+    // Undo (Ctrl+Z) and redo (Ctrl+R)
     if (key.ctrl && input === 'z') {
-      undoLastEdit();
+      stepHistory('undo');
+      return;
+    }
+    if (key.ctrl && input === 'r') {
+      stepHistory('redo');
       return;
     }
 
     // Copy left to right: ] or >
     if (input === ']' || input === '>') {
-      copyLeftToRight();
+      copySection('right');
       return;
     }
 
-    // Undo last edit: [ or < (same as Ctrl+Z)
+    // Copy right to left: [ or <
     if (input === '[' || input === '<') {
-      undoLastEdit();
+      if (leftEditDisabled) {
+        setSaveMessage(`Cannot copy to the left side: ${leftEditDisabled}`);
+        return;
+      }
+      copySection('left');
       return;
     }
 
@@ -642,6 +1212,95 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       return;
     }
 
+    // Ignore toggles: w cycles whitespace (off → trailing → all), b blank lines, I case
+    if (input === 'w') {
+      const next = diffOptions.ignoreAllWhitespace ? { ignoreTrailingWhitespace: false, ignoreAllWhitespace: false }
+        : diffOptions.ignoreTrailingWhitespace ? { ignoreTrailingWhitespace: false, ignoreAllWhitespace: true }
+        : { ignoreTrailingWhitespace: true, ignoreAllWhitespace: false };
+      setDiffOptions({ ...diffOptions, ...next });
+      setSaveMessage(next.ignoreAllWhitespace ? 'Ignoring all whitespace' : next.ignoreTrailingWhitespace ? 'Ignoring trailing whitespace' : 'Whitespace significant');
+      return;
+    }
+    if (input === 'b') {
+      setDiffOptions({ ...diffOptions, ignoreBlankLines: !diffOptions.ignoreBlankLines });
+      setSaveMessage(diffOptions.ignoreBlankLines ? 'Blank lines significant' : 'Ignoring blank lines');
+      return;
+    }
+    if (input === 'I') {
+      setDiffOptions({ ...diffOptions, ignoreCase: !diffOptions.ignoreCase });
+      setSaveMessage(diffOptions.ignoreCase ? 'Case significant' : 'Ignoring case');
+      return;
+    }
+
+    // Cycle diff algorithm: myers → patience → histogram
+    if (input === 'a') {
+      const current = DIFF_ALGORITHMS.indexOf(diffOptions.algorithm ?? 'myers');
+      const algorithm = DIFF_ALGORITHMS[(current + 1) % DIFF_ALGORITHMS.length];
+      setDiffOptions({ ...diffOptions, algorithm });
+      setSaveMessage(`Algorithm: ${algorithm}`);
+      return;
+    }
+
+    // Merge mode: cycle the left pane, jump between conflicts, resolve the one under the cursor
+    if (merge) {
+      if (input === 'c') {
+        const next = MERGE_SIDES[(MERGE_SIDES.indexOf(mergeLeft) + 1) % MERGE_SIDES.length];
+        setMergeLeft(next);
+        setSaveMessage(`Comparing with ${next.toUpperCase()}`);
+        return;
+      }
+      if (input === 'x' || input === 'X') {
+        if (conflicts.length === 0) {
+          setSaveMessage('No conflicts left');
+          return;
+        }
+        const rows = conflicts.map(conflict => getDisplayLineForLine('right', conflict.start));
+        // Wrap around at either end
+        let index: number;
+        if (input === 'x') {
+          index = rows.findIndex(row => row > currentLine);
+          if (index === -1) index = 0;
+        } else {
+          index = rows.length - 1;
+          while (index >= 0 && rows[index] >= currentLine) index--;
+          if (index === -1) index = rows.length - 1;
+        }
+        setCurrentLine(rows[index]);
+        setSaveMessage(`Conflict ${index + 1}/${conflicts.length}`);
+        return;
+      }
+      const choices: Record<string, ConflictChoice> = { '1': 'local', '2': 'remote', '3': 'both', '0': 'base' };
+      if (choices[input]) {
+        resolveConflictAtCursor(choices[input]);
+        return;
+      }
+    }
+
+    // Toggle between side-by-side and unified layouts
+    if (input === 'l') {
+      setLayout(unified ? 'split' : 'unified');
+      setSaveMessage(unified ? 'Layout: side-by-side' : 'Layout: unified');
+      return;
+    }
+
+    // Toggle soft wrap of long lines
+    if (input === 'W') {
+      setWrapEnabled(!wrapEnabled);
+      setSaveMessage(wrapEnabled ? 'Wrap off' : 'Wrap on');
+      return;
+    }
+
+    // Toggle re-reading the files when they change on disk
+    if (input === 'R') {
+      if (!watchedPaths.left && !watchedPaths.right) {
+        setSaveMessage('Only a pair of files can be watched');
+      } else {
+        setWatching(!watching);
+        setSaveMessage(watching ? 'Stopped watching the files' : 'Watching the files for changes');
+      }
+      return;
+    }
+
     // Horizontal scrolling
     if (key.leftArrow && !key.shift && !key.meta && !key.ctrl) {
       setHorizontalOffset(Math.max(0, horizontalOffset - 5));
@@ -659,45 +1318,52 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
 
     // Section navigation with n/p keys or Cmd/Ctrl+arrows
     const jumpToPrevSection = () => {
-      // Find the first section with changes before current line
-      let targetSection = -1;
-      let targetLineOffset = 0;
-      let lineCount = 0;
-
-      for (let i = 0; i < diffSections.length; i++) {
-        const sectionLines = getSectionDisplayLines(diffSections[i]);
-        const hasChanges = diffSections[i].leftLines.some(l => l.type !== 'equal') ||
-                          diffSections[i].rightLines.some(l => l.type !== 'equal');
-
-        if (lineCount < currentLine && hasChanges) {
-          targetSection = i;
-          targetLineOffset = lineCount;
+      // The last section with changes that starts before the current line
+      const { sectionStarts } = displayModel;
+      for (let i = sectionAtRow(displayModel, currentLine); i >= 0; i--) {
+        if (sectionStarts[i] < currentLine && sectionHasChanges(diffSections[i])) {
+          setCurrentLine(sectionStarts[i]);
+          return;
         }
-        lineCount += sectionLines;
       }
+    };
 
-      if (targetSection >= 0) {
-        setCurrentLine(targetLineOffset);
+    const jumpToNextSection = () => {
+      // The first section with changes that starts after the current line
+      const { sectionStarts } = displayModel;
+      for (let i = sectionAtRow(displayModel, currentLine); i < diffSections.length; i++) {
+        if (sectionStarts[i] > currentLine && sectionHasChanges(diffSections[i])) {
+          setCurrentLine(sectionStarts[i]);
+          return;
+        }
       }
     };
 
-    const jumpToNextSection = () => {
-      // Find the first section with changes after current line
-      let lineCount = 0;
-
-      for (let i = 0; i < diffSections.length; i++) {
-        const sectionLines = getSectionDisplayLines(diffSections[i]);
-
-        if (lineCount > currentLine) {
-          const hasChanges = diffSections[i].leftLines.some(l => l.type !== 'equal') ||
-                            diffSections[i].rightLines.some(l => l.type !== 'equal');
-          if (hasChanges) {
-            setCurrentLine(lineCount);
-            return;
-          }
+    // On a moved line, jump to the other end of its block; otherwise to the next moved block
+    const jumpToMovedBlock = () => {
+      const rows = displayRows
+        .map((row, index) => ({ index, left: row.left, right: row.right }))
+        .filter(row => row.left?.type === 'moved' || row.right?.type === 'moved');
+      if (rows.length === 0) {
+        setSaveMessage('No moved blocks');
+        return;
+      }
+
+      const here = rows.find(row => row.index === currentLine);
+      if (here) {
+        const fromLeft = here.left?.type === 'moved';
+        const moveId = fromLeft ? here.left!.moveId : here.right!.moveId;
+        const target = rows.find(row => (fromLeft ? row.right : row.left)?.moveId === moveId &&
+          (fromLeft ? row.right : row.left)?.type === 'moved');
+        if (target) {
+          setCurrentLine(target.index);
+          setSaveMessage(fromLeft ? `Moved block ${moveId}: destination` : `Moved block ${moveId}: source`);
+          return;
         }
-        lineCount += sectionLines;
       }
+
+      const next = rows.find(row => row.index > currentLine) ?? rows[0];
+      setCurrentLine(next.index);
     };
 
     // Line by line navigation
@@ -711,6 +1377,8 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       jumpToNextSection();
     } else if (input === 'p' || input === 'P' || ((key.meta || key.ctrl) && key.upArrow)) {
       jumpToPrevSection();
+    } else if (input === 'm') {
+      jumpToMovedBlock();
     }
     // Page navigation
     else if (key.shift && key.upArrow) {
@@ -724,161 +1392,147 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
       // Page down (vim-style)
       setCurrentLine(Math.min(totalLines - 1, currentLine + viewHeight));
     }
-  });
+  }, { isActive: !fileNav?.listOpen });
 
   // Find which section the current line belongs to
   useEffect(() => {
-    let lineCount = 0;
-    for (let i = 0; i < diffSections.length; i++) {
-      const sectionLines = getSectionDisplayLines(diffSections[i]);
-      if (currentLine < lineCount + sectionLines) {
-        setCurrentSection(i);
-        break;
+    setCurrentSection(sectionAtRow(displayModel, currentLine));
+  }, [currentLine, displayModel]);
+
+  // Only the rows in the viewport are visited
+  const renderLines = () => {
+    const lines: JSX.Element[] = [];
+    let rowsUsed = 0; // Terminal rows filled so far (a wrapped line fills several)
+
+    for (let globalLineIndex = scrollOffset; globalLineIndex < displayRows.length && rowsUsed < viewHeight; globalLineIndex++) {
+      const displayRow = displayRows[globalLineIndex];
+      if (displayRow.folded) {
+        rowsUsed++;
+        lines.push(
+          <Box key={`fold-${globalLineIndex}`} flexDirection="row">
+            <Box flexGrow={1} justifyContent="center">
+              <Text dimColor>
+                ⋯ {displayRow.folded} unchanged lines (press F to unfold) ⋯
+              </Text>
+            </Box>
+          </Box>
+        );
+        continue;
       }
-      lineCount += sectionLines;
-    }
-  }, [currentLine, diffSections, foldingEnabled]);
 
+      const leftLine = displayRow.left || { content: '', type: 'empty' as const };
+      const rightLine = displayRow.right || { content: '', type: 'empty' as const };
+      const isCurrentLine = globalLineIndex === currentLine;
 
+      const leftPrefix = getPrefixForLine(leftLine);
+      const rightPrefix = getPrefixForLine(rightLine);
 
-  const renderLines = () => {
-    const lines: JSX.Element[] = [];
-    let globalLineIndex = 0;
-    let leftLineNum = 1;
-    let rightLineNum = 1;
-    let viewportFull = false;
-
-    for (const section of diffSections) {
-      if (viewportFull) break;
-
-      const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
-
-      // Check if this section has any changes
-      const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                        section.rightLines.some(l => l.type !== 'equal');
-
-      // Determine if this section should be folded
-      const shouldFold = foldingEnabled && !hasChanges && maxLines > (contextLines * 2 + 1);
-      const foldedLinesCount = shouldFold ? maxLines - (contextLines * 2) : 0;
-
-      for (let i = 0; i < maxLines; i++) {
-        // Handle folding: skip middle lines if this section is folded
-        if (shouldFold) {
-          if (i === contextLines) {
-            // Insert fold placeholder
-            if (globalLineIndex >= scrollOffset && globalLineIndex < scrollOffset + viewHeight) {
-              lines.push(
-                <Box key={`fold-${globalLineIndex}`} flexDirection="row">
-                  <Box flexGrow={1} justifyContent="center">
-                    <Text dimColor>
-                      ⋯ {foldedLinesCount} unchanged lines (press F to unfold) ⋯
-                    </Text>
-                  </Box>
-                </Box>
-              );
-            }
-            globalLineIndex++;
-            // Skip to last contextLines
-            i = maxLines - contextLines - 1;
-            // Update line numbers for skipped lines
-            const skippedLines = foldedLinesCount;
-            leftLineNum += skippedLines;
-            rightLineNum += skippedLines;
-            continue;
-          }
-        }
+      // Calculate line numbers
+      const leftNum = leftLine.type !== 'empty' ? (displayRow.leftIndex + 1).toString().padStart(4) : '    ';
+      const rightNum = rightLine.type !== 'empty' ? (displayRow.rightIndex + 1).toString().padStart(4) : '    ';
 
-        if (globalLineIndex < scrollOffset) {
-          const leftLine = section.leftLines[i];
-          const rightLine = section.rightLines[i];
-          if (leftLine && leftLine.type !== 'empty') leftLineNum++;
-          if (rightLine && rightLine.type !== 'empty') rightLineNum++;
-          globalLineIndex++;
-          continue;
-        }
-        if (globalLineIndex >= scrollOffset + viewHeight) {
-          viewportFull = true;
-          break;
-        }
+      // Simple consistent divider
+      const divider = ' │ ';
 
-        const leftLine = section.leftLines[i] || { content: '', type: 'empty' as const };
-        const rightLine = section.rightLines[i] || { content: '', type: 'empty' as const };
-        const isCurrentLine = globalLineIndex === currentLine;
-
-        const leftPrefix = getPrefixForType(leftLine.type);
-        const rightPrefix = getPrefixForType(rightLine.type);
-
-        // Calculate line numbers
-        const leftNum = leftLine.type !== 'empty' ? leftLineNum.toString().padStart(4) : '    ';
-        const rightNum = rightLine.type !== 'empty' ? rightLineNum.toString().padStart(4) : '    ';
-
-        // Simple consistent divider
-        const divider = ' │ ';
-
-        // Get content for each side, applying horizontal scroll and truncation
-        const applyScrollAndTruncate = (text: string, maxWidth: number) => {
-          let result = text;
-          if (horizontalOffset > 0) {
-            result = result.substring(horizontalOffset);
-          }
-          // Truncate to prevent line wrapping
-          if (result.length > maxWidth) {
-            result = result.substring(0, maxWidth - 1) + '…';
-          }
-          return result;
-        };
+      // Build one column: gutter, then content with horizontal scroll, truncation and
+      // changed spans shown inverted, padded to the fixed column width.
+      // With `from` set (soft wrap) the chunk starting there is shown instead, never truncated.
+      const renderColumn = (line: DiffLine, gutter: string, width: number, textWidth: number, from?: number) => {
         // For 'empty' type (padding), show ⋯. For added/removed empty lines, show nothing (they still have line numbers)
-        const getDisplayContent = (line: { content: string; type: string }) => {
-          if (line.type === 'empty') return '⋯';
-          return line.content;
-        };
-        const leftContent = applyScrollAndTruncate(getDisplayContent(leftLine), contentWidth);
-        const rightContent = applyScrollAndTruncate(getDisplayContent(rightLine), contentWidth);
-
-        // Build complete line strings, padded to fixed width
-        const padToWidth = (str: string, width: number) => {
-          if (str.length >= width) return str.substring(0, width);
-          return str + ' '.repeat(width - str.length);
-        };
-        const leftLine_str = padToWidth(`${leftNum}${leftPrefix}${leftContent}`, columnWidth);
-        const rightLine_str = padToWidth(`${rightNum}${rightPrefix}${rightContent}`, columnWidth);
-
-        lines.push(
-          <Box key={globalLineIndex} flexDirection="row" width={terminalWidth}>
-            {/* Left side */}
-            <Text
-              color={isCurrentLine ? 'yellow' : getColorForType(leftLine.type)}
-              bold={isCurrentLine}
-              dimColor={leftLine.type === 'empty'}
-              wrap="truncate"
-            >
-              {leftLine_str}
+        const content = line.type === 'empty' ? '⋯' : line.content;
+        const start = from ?? horizontalOffset;
+        const visibleLength = Math.max(0, content.length - start);
+        // Truncate to prevent line wrapping
+        const truncated = from === undefined && visibleLength > textWidth;
+        const shownLength = truncated ? textWidth - 1 : Math.min(visibleLength, textWidth);
+        const tokens = lineTokens.get(line);
+        const segments: HighlightedSegment[] = segmentLine(content, line.spans, start, shownLength);
+        const padding = Math.max(0, width - gutter.length - shownLength - (truncated ? 1 : 0));
+
+        // Highlighted lines keep their status in the gutter color and a tinted background
+        if (tokens && !isCurrentLine) {
+          const background = getBackgroundForType(line.type);
+          return (
+            <Text wrap="truncate">
+              <Text color={getColorForLine(line)}>{gutter}</Text>
+              {applyTokens(segments, tokens, start).map((segment, i) => (
+                <Text
+                  key={i}
+                  color={segment.kind ? getColorForToken(segment.kind) : undefined}
+                  backgroundColor={background}
+                  inverse={segment.changed}
+                >
+                  {segment.text}
+                </Text>
+              ))}
+              {truncated ? '…' : ''}
+              {' '.repeat(padding)}
             </Text>
+          );
+        }
 
-            {/* Divider */}
-            <Text color="cyan">{divider}</Text>
-
-            {/* Right side */}
-            <Text
-              color={isCurrentLine ? 'yellow' : getColorForType(rightLine.type)}
-              bold={isCurrentLine}
-              dimColor={rightLine.type === 'empty'}
-              wrap="truncate"
-            >
-              {rightLine_str}
-            </Text>
-          </Box>
+        return (
+          <Text
+            color={isCurrentLine ? 'yellow' : getColorForLine(line)}
+            bold={isCurrentLine}
+            dimColor={line.type === 'empty'}
+            wrap="truncate"
+          >
+            {gutter}
+            {segments.map((segment, i) => (
+              <Text key={i} inverse={segment.changed}>{segment.text}</Text>
+            ))}
+            {truncated ? '…' : ''}
+            {' '.repeat(padding)}
+          </Text>
         );
-
-        // Increment line numbers
-        const leftWasIncr = leftLine.type !== 'empty';
-        const rightWasIncr = rightLine.type !== 'empty';
-        if (leftWasIncr) leftLineNum++;
-        if (rightWasIncr) rightLineNum++;
-        globalLineIndex++;
+      };
+
+      // Wrapped lines continue on extra rows; only the first row shows line numbers
+      const height = getRowHeight(leftLine, rightLine);
+      for (let row = 0; row < height && rowsUsed < viewHeight; row++) {
+        const gutter = (text: string) => row === 0 ? text : ' '.repeat(text.length);
+        if (unified) {
+          const line = unifiedRowLine(leftLine, rightLine);
+          lines.push(
+            <Box key={`${globalLineIndex}-${row}`} flexDirection="row" width={terminalWidth}>
+              {renderColumn(line, gutter(`${leftNum} ${rightNum}${getPrefixForLine(line)}`), terminalWidth,
+                unifiedContentWidth, wrapEnabled ? row * unifiedContentWidth : undefined)}
+            </Box>
+          );
+        } else {
+          const from = wrapEnabled ? row * contentWidth : undefined;
+          lines.push(
+            <Box key={`${globalLineIndex}-${row}`} flexDirection="row" width={terminalWidth}>
+              {/* Left side */}
+              {renderColumn(leftLine, gutter(`${leftNum}${leftPrefix}`), columnWidth, contentWidth, from)}
+
+              {/* Divider */}
+              <Text color="cyan">{divider}</Text>
+
+              {/* Right side */}
+              {renderColumn(rightLine, gutter(`${rightNum}${rightPrefix}`), columnWidth, contentWidth, from)}
+            </Box>
+          );
+        }
+        rowsUsed++;
       }
     }
 
+    if (diffSections.length === 0 && diffTask) {
+      lines.push(
+        <Box key="computing" justifyContent="center">
+          <Text dimColor>Computing diff… (Esc to cancel, q to quit)</Text>
+        </Box>
+      );
+    } else if (diffSections.length === 0) {
+      lines.push(
+        <Box key="no-changes" justifyContent="center">
+          <Text dimColor>No textual changes</Text>
+        </Box>
+      );
+    }
+
     return lines;
   };
 
@@ -886,14 +1540,40 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
     <Box flexDirection="column" height={terminalHeight}>
       {/* Header */}
       <Box borderStyle="single" paddingX={1} flexDirection="row">
-        <Box flexGrow={1} flexShrink={1} flexBasis={0}>
-          <Text bold color="cyan">{leftFile}</Text>
-        </Box>
-        <Text color="gray">│</Text>
-        <Box flexGrow={1} flexShrink={1} flexBasis={0}>
-          <Text bold color="cyan">{rightFile}</Text>
-        </Box>
+        {/* ▸ marks the pane that editing targets, * a side with unsaved edits */}
+        {diskView ? (
+          <>
+            <Box flexGrow={1} flexShrink={1} flexBasis={0}>
+              <Text bold color="red">
+                {diskView.merged ? `MERGED WITH DISK: ${watchedPaths[diskView.side]}` : `ON DISK: ${savePaths[diskView.side]}`}
+              </Text>
+            </Box>
+            <Text color="gray">│</Text>
+            <Box flexGrow={1} flexShrink={1} flexBasis={0}>
+              <Text bold color="yellow">YOURS: {diskView.side === 'left' ? leftLabel : rightLabel}</Text>
+            </Box>
+          </>
+        ) : (
+          <>
+            <Box flexGrow={1} flexShrink={1} flexBasis={0}>
+              <Text bold color={focusedSide === 'left' ? 'yellow' : 'cyan'}>
+                {focusedSide === 'left' ? '▸ ' : ''}{shownLeftFile}{isLeftEdited ? ' *' : ''}
+              </Text>
+            </Box>
+            <Text color="gray">│</Text>
+            <Box flexGrow={1} flexShrink={1} flexBasis={0}>
+              <Text bold color={focusedSide === 'right' && !readOnly ? 'yellow' : 'cyan'}>
+                {focusedSide === 'right' && !readOnly ? '▸ ' : ''}{rightLabel}{isRightEdited ? ' *' : ''}
+              </Text>
+            </Box>
+          </>
+        )}
       </Box>
+      {notes && notes.length > 0 && (
+        <Box paddingX={1}>
+          <Text color="gray">{notes.join(' | ')}</Text>
+        </Box>
+      )}
 
       {/* Content */}
       <Box flexDirection="column" flexGrow={1}>
@@ -915,6 +1595,20 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
             )}
             <Text color="gray"> | Enter:confirm | Esc:cancel | ^N/^P:next/prev</Text>
           </Text>
+        ) : saveAs ? (
+          <Text>
+            <Text color="cyan">Save {saveAs.side} side ({saveAs.side === 'left' ? leftLabel : rightLabel}) as: </Text>
+            <Text>{saveAs.path}</Text>
+            <Text color="gray">█</Text>
+            <Text color="gray"> | Enter:save | Esc:cancel</Text>
+          </Text>
+        ) : exportMode ? (
+          <Text>
+            <Text color="cyan">Export patch ({patchBase === 'left' ? 'left' : 'original right'} → edited right) to: </Text>
+            <Text>{exportPath}</Text>
+            <Text color="gray">█</Text>
+            <Text color="gray"> | Enter:write | Tab:switch base | Esc:cancel</Text>
+          </Text>
         ) : gotoMode ? (
           <Text>
             <Text color="cyan">Go to line: </Text>
@@ -924,19 +1618,31 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
           </Text>
         ) : insertMode ? (
           <Text>
-            <Text color="green" bold>-- INSERT --</Text>
-            <Text> | ^A:start ^E:end ^K:kill ^Y:yank ^W:kill-word | Esc:exit</Text>
+            <Text color="green" bold>-- INSERT ({focusedSide}) --</Text>
+            <Text> | ^A:start ^E:end ^K:kill ^Y:yank ^W:kill-word | Enter:split | Esc:exit</Text>
           </Text>
         ) : (
           <Text>
+            {fileNav && <Text color="cyan">File {fileNav.index + 1}/{fileNav.count}{fileNav.loading ? '+ (reading…)' : ''} | </Text>}
             Line {currentLine + 1}/{totalLines} | Section {currentSection + 1}/{diffSections.length} |
             <Text color={foldingEnabled ? 'green' : 'gray'}> Fold:{foldingEnabled ? 'ON' : 'OFF'}</Text>
+            {diffOptions.algorithm && diffOptions.algorithm !== 'myers' && <Text color="blue"> | {diffOptions.algorithm}</Text>}
+            {unified && <Text color="blue"> | unified</Text>}
+            {coarseDiff && <Text color="yellow"> | coarse</Text>}
+            {watching && <Text color="blue"> | watch</Text>}
+            {wrapEnabled && <Text color="blue"> | wrap</Text>}
             {isEdited && <Text color="yellow" bold> [MODIFIED]</Text>}
+            {diskView ? (
+              <Text color="red">{diskView.merged ? ' [MERGE PREVIEW - Enter to take it, Esc to return]' : ' [DISK VERSION - Esc to return]'}</Text>
+            ) : readOnly && <Text color="gray"> [READ-ONLY]</Text>}
+            {merge && <Text color={conflicts.length > 0 ? 'red' : 'green'}> | {conflicts.length > 0 ? `Conflicts:${conflicts.length}` : 'Resolved'}</Text>}
+            {describeDiffOptions(diffOptions) && <Text color="blue"> | Ignore:{describeDiffOptions(diffOptions)}</Text>}
             {searchMatches.length > 0 && (
               <Text color="magenta"> | Search:{currentMatchIndex + 1}/{searchMatches.length}</Text>
             )}
+            {diffTask && <Text color="yellow"> | Computing… (Esc:cancel)</Text>}
             {saveMessage && <Text color="cyan"> | {saveMessage}</Text>}
-            {horizontalOffset > 0 && <Text color="yellow"> | Scroll→{horizontalOffset}</Text>} |
+            {horizontalOffset > 0 && !wrapEnabled && <Text color="yellow"> | Scroll→{horizontalOffset}</Text>} |
             <Text color="gray"> i:edit | /:search | g:goto | ?:help</Text>
           </Text>
         )}
@@ -966,23 +1672,51 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
             <Text>  u / d         Page up / page down</Text>
             <Text>  Shift + ↑↓    Page up / page down (alternative)</Text>
             <Text>  Cmd/Ctrl + ↑↓ Jump sections (alternative)</Text>
+            <Text>  m             Jump between a moved block's source and destination</Text>
             <Text> </Text>
             <Text><Text color="yellow">View:</Text></Text>
             <Text>  ← / →         Horizontal scroll</Text>
             <Text>  f             Toggle folding of unchanged sections</Text>
+            <Text>  w             Ignore whitespace: off / trailing / all</Text>
+            <Text>  b             Ignore blank-line changes</Text>
+            <Text>  I             Ignore case</Text>
+            <Text>  a             Cycle diff algorithm (myers / patience / histogram)</Text>
+            <Text>  l             Toggle side-by-side / unified layout</Text>
+            <Text>  W             Toggle soft wrap of long lines</Text>
+            <Text>  R             Toggle re-reading the files when they change on disk</Text>
+            <Text>  Tab / Shift+Tab  Next / previous file (patches, git, directories)</Text>
+            <Text>  L             Pick a file from the file list (↑↓ to move, Enter to open, Esc to go back)</Text>
             <Text> </Text>
             <Text><Text color="yellow">Editing:</Text></Text>
-            <Text>  i or e        Enter insert mode (edit current line)</Text>
+            <Text>  t             Switch the edited pane (left / right)</Text>
+            <Text>  i or e        Enter insert mode (edit current line of that pane)</Text>
+            <Text>  o / O         Open a new line below / above and edit it</Text>
+            <Text>  Ctrl + K      Delete the current line (repeat to collect lines for Ctrl+Y)</Text>
+            <Text>  Ctrl + Y      Paste the kill ring above the current line</Text>
             <Text>  ] or &gt;        Copy diff from left to right</Text>
-            <Text>  [ or &lt;        Undo last edit (same as Ctrl+Z)</Text>
-            <Text>  Ctrl + S      Save changes to right file</Text>
-            <Text>  Ctrl + Z      Undo last edit</Text>
+            <Text>  [ or &lt;        Copy diff from right to left</Text>
+            <Text>  Ctrl + S      Save every edited file</Text>
+            <Text>  Ctrl + Z      Undo the last edit in the edited pane (an insert session undoes at once)</Text>
+            <Text>  Ctrl + R      Redo</Text>
+            <Text>  E             Export the edited right side as a patch (of the left or the original right)</Text>
             <Text> </Text>
+            {merge && (
+              <>
+                <Text><Text color="yellow">Merge:</Text></Text>
+                <Text>  x / X         Next / previous conflict</Text>
+                <Text>  1 / 2 / 3     Take local / remote / both for the conflict at the cursor</Text>
+                <Text>  0             Take base for the conflict at the cursor</Text>
+                <Text>  c             Compare merge result with base / local / remote</Text>
+                <Text> </Text>
+              </>
+            )}
             <Text><Text color="yellow">Insert Mode (emacs keybindings):</Text></Text>
             <Text>  Ctrl+A/E     Jump to beginning/end of line</Text>
-            <Text>  Ctrl+K       Kill (cut) to end of line</Text>
-            <Text>  Ctrl+Y       Yank (paste)</Text>
-            <Text>  Ctrl+D       Delete character forward</Text>
+            <Text>  Ctrl+K       Kill (cut) to end of line, or the line break at the end</Text>
+            <Text>  Ctrl+Y       Yank (paste), splitting lines at killed line breaks</Text>
+            <Text>  Ctrl+D       Delete character forward (joins the next line at the end)</Text>
+            <Text>  Enter        Split the line at the cursor</Text>
+            <Text>  Backspace    At the start of a line, join it onto the previous one</Text>
             <Text>  Ctrl+W       Kill word backward</Text>
             <Text>  Esc          Exit insert mode</Text>
             <Text> </Text>
@@ -1001,6 +1735,62 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
         </Box>
       )}
 
+      {/* Changed On Disk Modal */}
+      {saveConflicts && (
+        <Box
+          position="absolute"
+          width="100%"
+          height="100%"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Box
+            borderStyle="double"
+            borderColor="red"
+            paddingX={2}
+            paddingY={1}
+            flexDirection="column"
+          >
+            <Text bold color="red">Changed On Disk</Text>
+            <Text> </Text>
+            <Text>Modified by another program since diffuse loaded it:</Text>
+            {saveConflicts.map(({ side }) => <Text key={side}>  {savePaths[side]}</Text>)}
+            <Text> </Text>
+            <Text>  <Text color="red" bold>O</Text> - Overwrite with your version</Text>
+            <Text>  <Text color="cyan" bold>D</Text> - Compare your version with the disk version</Text>
+            <Text>  <Text color="gray" bold>C</Text> / ESC - Cancel</Text>
+          </Box>
+        </Box>
+      )}
+
+      {/* Changed Under Edits Modal (hidden while the merge is previewed) */}
+      {reloadConflict && !diskView && (
+        <Box
+          position="absolute"
+          width="100%"
+          height="100%"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Box
+            borderStyle="double"
+            borderColor="red"
+            paddingX={2}
+            paddingY={1}
+            flexDirection="column"
+          >
+            <Text bold color="red">Changed On Disk</Text>
+            <Text> </Text>
+            <Text>Modified by another program while you have unsaved edits:</Text>
+            <Text>  {watchedPaths[reloadConflict.side]}</Text>
+            <Text> </Text>
+            <Text>  <Text color="yellow" bold>K</Text> / ESC - Keep your edits</Text>
+            <Text>  <Text color="red" bold>T</Text> - Take the disk version (undo brings your edits back)</Text>
+            <Text>  <Text color="cyan" bold>V</Text> - View the three-way merge of your edits and the disk version</Text>
+          </Box>
+        </Box>
+      )}
+
       {/* Quit Confirmation Modal */}
       {showQuitConfirm && (
         <Box
@@ -1019,7 +1809,9 @@ export const App: React.FC<AppProps> = ({ leftContent, rightContent, leftFile, r
           >
             <Text bold color="yellow">Unsaved Changes</Text>
             <Text> </Text>
-            <Text>You have unsaved changes to {rightFile}.</Text>
+            <Text>You have unsaved changes to:</Text>
+            {isLeftEdited && <Text>  {leftLabel}</Text>}
+            {isRightEdited && <Text>  {rightLabel}</Text>}
             <Text>Save before quitting?</Text>
             <Text> </Text>
             <Text>  <Text color="green" bold>Y</Text> - Save and quit</Text>
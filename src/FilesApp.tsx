@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { App } from './App.js';
+import type { DiffSection, DiffOptions } from './diff.js';
+import type { DiffLayout } from './layout.js';
+import type { Language } from './syntax.js';
+
+export type FileStatus = 'added' | 'removed' | 'modified' | 'identical';
+
+// One file pair in a multi-file session
+export interface FileEntry {
+  leftFile: string;
+  rightFile: string;
+  leftContent: string;
+  rightContent: string;
+  sections?: DiffSection[]; // Precomputed (e.g. from a patch) - opens read-only
+  notes?: string[];
+  savePath?: string; // Where saving writes (defaults to rightFile)
+  saveDisabled?: string; // Reason saving is refused (e.g. right side is a git revision)
+  leftSaveDisabled?: string; // Reason the left side can't be edited and saved (e.g. it is the git index)
+  label?: string; // Name shown in the file list (defaults to rightFile)
+  status?: FileStatus;
+}
+
+interface FilesAppProps {
+  files: FileEntry[];
+  showFileList?: boolean; // Left-hand pane listing every file with its status
+  diffOptions?: DiffOptions;
+  layout?: DiffLayout;
+  wrap?: boolean;
+  language?: Language | null;
+  persistHistory?: boolean;
+  backup?: boolean;
+  loading?: boolean; // More files are still arriving (pager input)
+}
+
+function getStatusMarker(status: FileStatus | undefined): { marker: string; color: string } {
+  switch (status) {
+    case 'added': return { marker: 'A', color: 'green' };
+    case 'removed': return { marker: 'D', color: 'red' };
+    case 'modified': return { marker: 'M', color: 'yellow' };
+    case 'identical': return { marker: '=', color: 'gray' };
+    default: return { marker: ' ', color: 'white' };
+  }
+}
+
+interface FileListProps {
+  files: FileEntry[];
+  selected: number;
+  width: number;
+  height: number;
+  focused: boolean; // Moving through the list: `selected` is the entry under the cursor
+}
+
+const FileList: React.FC<FileListProps> = ({ files, selected, width, height, focused }) => {
+  // Keep the selected entry in view, roughly centered
+  const listHeight = Math.max(1, height - (focused ? 3 : 2));
+  const start = Math.max(0, Math.min(selected - Math.floor(listHeight / 2), files.length - listHeight));
+  const visible = files.slice(start, start + listHeight);
+  const nameWidth = Math.max(4, width - 6);
+
+  return (
+    <Box flexDirection="column" width={width} borderStyle="single" borderColor={focused ? 'cyan' : 'gray'}>
+      {visible.map((file, i) => {
+        const index = start + i;
+        const { marker, color } = getStatusMarker(file.status);
+        const name = file.label ?? file.rightFile;
+        // Keep the end of long paths, which is the part that tells files apart
+        const display = name.length > nameWidth ? '…' + name.slice(name.length - nameWidth + 1) : name;
+        return (
+          <Text key={index} wrap="truncate" inverse={index === selected}>
+            <Text color={color}>{marker}</Text> <Text color={file.status === 'identical' ? 'gray' : undefined}>{display}</Text>
+          </Text>
+        );
+      })}
+      {focused && <Box flexGrow={1} alignItems="flex-end"><Text color="cyan" wrap="truncate">↑↓ Enter:open Esc:back</Text></Box>}
+    </Box>
+  );
+};
+
+// Shows one file pair at a time; Tab / Shift+Tab in App moves between them, and L hands the keys
+// to the file list to pick one
+export const FilesApp: React.FC<FilesAppProps> = ({ files, showFileList, diffOptions, layout, wrap, language, persistHistory, backup, loading }) => {
+  // Start on the first file that actually differs
+  const [fileIndex, setFileIndex] = useState(() => Math.max(0, files.findIndex(f => f.status !== 'identical')));
+  // Content saved during this session, so revisiting a file shows it as unmodified
+  const [savedContents, setSavedContents] = useState<Record<number, string>>({});
+  const [savedLeftContents, setSavedLeftContents] = useState<Record<number, string>>({});
+  // Entry under the cursor while the file list has the keys
+  const [listCursor, setListCursor] = useState<number | null>(null);
+  const file = files[fileIndex];
+
+  const terminalWidth = process.stdout.columns || 80;
+  const terminalHeight = process.stdout.rows || 24;
+  const listWidth = showFileList ? Math.min(40, Math.max(20, Math.floor(terminalWidth / 4))) : 0;
+
+  useInput((input, key) => {
+    if (listCursor === null) return;
+    if (key.upArrow) {
+      setListCursor(Math.max(0, listCursor - 1));
+    } else if (key.downArrow) {
+      setListCursor(Math.min(files.length - 1, listCursor + 1));
+    } else if (key.pageUp) {
+      setListCursor(Math.max(0, listCursor - (terminalHeight - 3)));
+    } else if (key.pageDown) {
+      setListCursor(Math.min(files.length - 1, listCursor + (terminalHeight - 3)));
+    } else if (key.return) {
+      setFileIndex(listCursor);
+      setListCursor(null);
+    } else if (key.escape || input === 'L') {
+      setListCursor(null);
+    }
+  }, { isActive: listCursor !== null });
+
+  const recordSave = (content: string) => {
+    setSavedContents(prev => ({ ...prev, [fileIndex]: content }));
+  };
+
+  const recordLeftSave = (content: string) => {
+    setSavedLeftContents(prev => ({ ...prev, [fileIndex]: content }));
+  };
+
+  const app = (
+    <App
+      // Remount per file so cursor, folding and edit state start fresh
+      key={fileIndex}
+      leftContent={savedLeftContents[fileIndex] ?? file.leftContent}
+      rightContent={savedContents[fileIndex] ?? file.rightContent}
+      leftFile={file.leftFile}
+      rightFile={file.rightFile}
+      sections={file.sections}
+      notes={file.notes}
+      onSave={recordSave}
+      savePath={file.savePath}
+      saveDisabled={file.saveDisabled}
+      onSaveLeft={recordLeftSave}
+      leftSaveDisabled={file.leftSaveDisabled}
+      width={showFileList ? terminalWidth - listWidth : undefined}
+      diffOptions={diffOptions}
+      layout={layout}
+      wrap={wrap}
+      language={language}
+      persistHistory={persistHistory}
+      backup={backup}
+      fileNav={{
+        index: fileIndex,
+        count: files.length,
+        loading,
+        onNext: () => setFileIndex((fileIndex + 1) % files.length),
+        onPrev: () => setFileIndex((fileIndex - 1 + files.length) % files.length),
+        onOpenList: showFileList ? () => setListCursor(fileIndex) : undefined,
+        listOpen: listCursor !== null,
+      }}
+    />
+  );
+
+  if (!showFileList) return app;
+
+  return (
+    <Box flexDirection="row" height={terminalHeight}>
+      <FileList files={files} selected={listCursor ?? fileIndex} width={listWidth} height={terminalHeight} focused={listCursor !== null} />
+      <Box flexDirection="column" flexGrow={1}>
+        {app}
+      </Box>
+    </Box>
+  );
+};
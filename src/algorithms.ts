@@ -0,0 +1,374 @@
+// Line diff algorithms
+// Myers (via the diff package), patience and histogram, all returning Diff.diffArrays-shaped runs,
+// and a coarse chunked diff for inputs too different to diff line by line
+
+import * as Diff from 'diff';
+import type { LineChange } from './diff.js';
+
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
+export const DIFF_ALGORITHMS: DiffAlgorithm[] = ['myers', 'patience', 'histogram'];
+
+// Histogram diff ignores lines more frequent than this, like git's default
+const MAX_CHAIN_LENGTH = 64;
+
+// Nesting of histogram splits past which the rest of a range is diffed with Myers
+const MAX_HISTOGRAM_DEPTH = 64;
+
+// Chunks end after lines whose hash is a multiple of this, so they average this many lines
+const CHUNK_BOUNDARY = 16;
+
+// Edit distance between chunk lists past which the chunked diff replaces everything
+const MAX_CHUNK_EDIT_LENGTH = 1000;
+
+// Thrown out of the recursion when Myers gives up on a pair of line lists
+class EditLengthExceeded extends Error {}
+
+type Op = 'equal' | 'remove' | 'add';
+
+// Collects per-line operations and merges them into runs
+class ChangeBuilder {
+  private ops: Array<{ op: Op; line: string }> = [];
+
+  equal(lines: string[]): void {
+    for (const line of lines) this.ops.push({ op: 'equal', line });
+  }
+
+  remove(lines: string[]): void {
+    for (const line of lines) this.ops.push({ op: 'remove', line });
+  }
+
+  add(lines: string[]): void {
+    for (const line of lines) this.ops.push({ op: 'add', line });
+  }
+
+  // Runs with every removal between two equal runs placed before the additions,
+  // which is the order computeDiffSections pairs them in
+  build(): LineChange[] {
+    const changes: LineChange[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+    const flush = () => {
+      if (removed.length > 0) changes.push({ value: removed, removed: true });
+      if (added.length > 0) changes.push({ value: added, added: true });
+      removed = [];
+      added = [];
+    };
+
+    for (const { op, line } of this.ops) {
+      if (op === 'remove') {
+        removed.push(line);
+      } else if (op === 'add') {
+        added.push(line);
+      } else {
+        flush();
+        const last = changes[changes.length - 1];
+        if (last && !last.added && !last.removed) {
+          last.value.push(line);
+        } else {
+          changes.push({ value: [line] });
+        }
+      }
+    }
+    flush();
+    return changes;
+  }
+}
+
+// Returns the number of lines removed and added
+function diffMyers(a: string[], b: string[], out: ChangeBuilder, maxEditLength?: number): number {
+  // The diff package returns undefined once the edit distance passes maxEditLength
+  const changes = Diff.diffArrays(a, b, { maxEditLength }) as Diff.ArrayChange<string>[] | undefined;
+  if (!changes) throw new EditLengthExceeded();
+  let edits = 0;
+  for (const change of changes) {
+    if (change.removed) out.remove(change.value);
+    else if (change.added) out.add(change.value);
+    else out.equal(change.value);
+    if (change.added || change.removed) edits += change.value.length;
+  }
+  return edits;
+}
+
+// Strip the common prefix and suffix, returning the differing middle of each side
+function trimCommon(a: string[], b: string[], out: ChangeBuilder, inner: (a: string[], b: string[]) => void): void {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix &&
+         a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  out.equal(a.slice(0, prefix));
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  if (aMid.length === 0) {
+    out.add(bMid);
+  } else if (bMid.length === 0) {
+    out.remove(aMid);
+  } else {
+    inner(aMid, bMid);
+  }
+  out.equal(a.slice(a.length - suffix));
+}
+
+// Longest increasing subsequence of b-positions, used to pick non-crossing anchors
+function longestIncreasing(pairs: Array<[number, number]>): Array<[number, number]> {
+  const tails: number[] = []; // Index into pairs of the smallest tail for each length
+  const previous: number[] = new Array(pairs.length).fill(-1);
+
+  for (let i = 0; i < pairs.length; i++) {
+    const value = pairs[i][1];
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][1] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) previous[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+
+  const result: Array<[number, number]> = [];
+  let k = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (k !== -1) {
+    result.push(pairs[k]);
+    k = previous[k];
+  }
+  return result.reverse();
+}
+
+// Patience: anchor on lines that occur exactly once on each side, recurse between anchors
+function diffPatience(a: string[], b: string[], out: ChangeBuilder, maxEditLength?: number): void {
+  trimCommon(a, b, out, (aMid, bMid) => {
+    const counts = new Map<string, { a: number; b: number; aIndex: number; bIndex: number }>();
+    aMid.forEach((line, i) => {
+      const entry = counts.get(line) ?? { a: 0, b: 0, aIndex: -1, bIndex: -1 };
+      entry.a++;
+      entry.aIndex = i;
+      counts.set(line, entry);
+    });
+    bMid.forEach((line, j) => {
+      const entry = counts.get(line);
+      if (entry) {
+        entry.b++;
+        entry.bIndex = j;
+      }
+    });
+
+    const unique: Array<[number, number]> = [];
+    for (const entry of counts.values()) {
+      if (entry.a === 1 && entry.b === 1) unique.push([entry.aIndex, entry.bIndex]);
+    }
+    if (unique.length === 0) {
+      diffMyers(aMid, bMid, out, maxEditLength);
+      return;
+    }
+
+    unique.sort((x, y) => x[0] - y[0]);
+    let aPos = 0;
+    let bPos = 0;
+    for (const [i, j] of longestIncreasing(unique)) {
+      diffPatience(aMid.slice(aPos, i), bMid.slice(bPos, j), out, maxEditLength);
+      out.equal([aMid[i]]);
+      aPos = i + 1;
+      bPos = j + 1;
+    }
+    diffPatience(aMid.slice(aPos), bMid.slice(bPos), out, maxEditLength);
+  });
+}
+
+// Histogram: split on the longest common run that contains the rarest shared line. Lines are
+// numbered once so each step works on index ranges; the part after a split is handled by the
+// loop and only the part before it recurses, falling back to Myers past MAX_HISTOGRAM_DEPTH.
+function diffHistogram(a: string[], b: string[], out: ChangeBuilder, maxEditLength?: number): void {
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  });
+  const aIds = toIds(a);
+  const bIds = toIds(b);
+  // Per range: occurrences of each line in a, its first position and the next one after each
+  const counts = new Int32Array(ids.size);
+  const first = new Int32Array(ids.size).fill(-1);
+  const next = new Int32Array(a.length);
+
+  let edits = 0;
+  const spend = (count: number) => {
+    edits += count;
+    if (maxEditLength !== undefined && edits > maxEditLength) throw new EditLengthExceeded();
+  };
+
+  const diffRange = (aLo: number, aHi: number, bLo: number, bHi: number, depth: number): void => {
+    let suffix = 0;
+    while (aHi - suffix > aLo && bHi - suffix > bLo && aIds[aHi - 1 - suffix] === bIds[bHi - 1 - suffix]) suffix++;
+    aHi -= suffix;
+    bHi -= suffix;
+
+    for (;;) {
+      const prefixStart = aLo;
+      while (aLo < aHi && bLo < bHi && aIds[aLo] === bIds[bLo]) {
+        aLo++;
+        bLo++;
+      }
+      out.equal(a.slice(prefixStart, aLo));
+
+      if (aLo === aHi || bLo === bHi) {
+        spend(aHi - aLo + bHi - bLo);
+        out.remove(a.slice(aLo, aHi));
+        out.add(b.slice(bLo, bHi));
+        break;
+      }
+      if (depth > MAX_HISTOGRAM_DEPTH) {
+        myersRange(aLo, aHi, bLo, bHi);
+        break;
+      }
+
+      for (let i = aHi - 1; i >= aLo; i--) {
+        counts[aIds[i]]++;
+        next[i] = first[aIds[i]];
+        first[aIds[i]] = i;
+      }
+
+      let best: { aStart: number; bStart: number; length: number; rarity: number } | null = null;
+      for (let j = bLo; j < bHi;) {
+        const occurrences = counts[bIds[j]];
+        let nextJ = j + 1;
+        if (occurrences > 0 && occurrences <= MAX_CHAIN_LENGTH && (!best || occurrences <= best.rarity)) {
+          for (let i = first[bIds[j]]; i !== -1; i = next[i]) {
+            // Extend the match in both directions
+            let start = 0;
+            while (i - start > aLo && j - start > bLo && aIds[i - start - 1] === bIds[j - start - 1]) start++;
+            let end = 1;
+            while (i + end < aHi && j + end < bHi && aIds[i + end] === bIds[j + end]) end++;
+
+            let rarity = occurrences;
+            for (let k = -start; k < end; k++) rarity = Math.min(rarity, counts[aIds[i + k]]);
+            const length = start + end;
+            if (!best || rarity < best.rarity || (rarity === best.rarity && length > best.length)) {
+              best = { aStart: i - start, bStart: j - start, length, rarity };
+            }
+            // Later lines of this run would only find it again
+            nextJ = Math.max(nextJ, j + end);
+          }
+        }
+        j = nextJ;
+      }
+
+      for (let i = aLo; i < aHi; i++) {
+        counts[aIds[i]] = 0;
+        first[aIds[i]] = -1;
+      }
+
+      if (!best) {
+        myersRange(aLo, aHi, bLo, bHi);
+        break;
+      }
+      diffRange(aLo, best.aStart, bLo, best.bStart, depth + 1);
+      out.equal(a.slice(best.aStart, best.aStart + best.length));
+      aLo = best.aStart + best.length;
+      bLo = best.bStart + best.length;
+    }
+
+    out.equal(a.slice(aHi, aHi + suffix));
+  };
+
+  // Myers on what is left of the edit budget
+  const myersRange = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    const remaining = maxEditLength === undefined ? undefined : maxEditLength - edits;
+    spend(diffMyers(a.slice(aLo, aHi), b.slice(bLo, bHi), out, remaining));
+  };
+
+  diffRange(0, a.length, 0, b.length, 0);
+}
+
+// Diff two line arrays with the chosen algorithm; undefined when Myers (on its own or as the
+// fallback of patience and histogram) finds more than `maxEditLength` differing lines
+export function diffLineArrays(a: string[], b: string[], algorithm?: DiffAlgorithm): LineChange[];
+export function diffLineArrays(a: string[], b: string[], algorithm: DiffAlgorithm | undefined, maxEditLength: number | undefined): LineChange[] | undefined;
+export function diffLineArrays(a: string[], b: string[], algorithm: DiffAlgorithm = 'myers', maxEditLength?: number): LineChange[] | undefined {
+  const out = new ChangeBuilder();
+  try {
+    if (algorithm === 'patience') {
+      diffPatience(a, b, out, maxEditLength);
+    } else if (algorithm === 'histogram') {
+      diffHistogram(a, b, out, maxEditLength);
+    } else {
+      diffMyers(a, b, out, maxEditLength);
+    }
+  } catch (error) {
+    if (error instanceof EditLengthExceeded) return undefined;
+    throw error;
+  }
+  return out.build();
+}
+
+// FNV-1a
+function hashLine(line: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < line.length; i++) {
+    hash = Math.imul(hash ^ line.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Split lines into chunks ending where a line's hash hits a boundary, so the chunks only depend
+// on nearby content: an insertion changes the chunks around it, not every chunk after it
+function chunkLines(lines: string[]): string[][] {
+  const chunks: string[][] = [];
+  let chunk: string[] = [];
+  for (const line of lines) {
+    chunk.push(line);
+    if (hashLine(line) % CHUNK_BOUNDARY === 0) {
+      chunks.push(chunk);
+      chunk = [];
+    }
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+// Coarse diff: Myers over whole chunks, expanded back to lines. Unchanged lines inside a changed
+// chunk show as removed and added, but the cost depends on the number of chunks, and when even
+// those differ too much everything between the common prefix and suffix is replaced.
+export function diffLineChunks(a: string[], b: string[]): LineChange[] {
+  const out = new ChangeBuilder();
+  trimCommon(a, b, out, (aMid, bMid) => {
+    const aChunks = chunkLines(aMid);
+    const bChunks = chunkLines(bMid);
+    // Lines never contain '\n', so joined chunks are equal exactly when their lines are
+    const changes = Diff.diffArrays(
+      aChunks.map(chunk => chunk.join('\n')),
+      bChunks.map(chunk => chunk.join('\n')),
+      { maxEditLength: MAX_CHUNK_EDIT_LENGTH }
+    ) as Diff.ArrayChange<string>[] | undefined;
+    if (!changes) {
+      out.remove(aMid);
+      out.add(bMid);
+      return;
+    }
+
+    let aPos = 0;
+    let bPos = 0;
+    for (const change of changes) {
+      const count = change.value.length;
+      if (change.removed) {
+        out.remove(aChunks.slice(aPos, aPos + count).flat());
+        aPos += count;
+      } else if (change.added) {
+        out.add(bChunks.slice(bPos, bPos + count).flat());
+        bPos += count;
+      } else {
+        out.equal(aChunks.slice(aPos, aPos + count).flat());
+        aPos += count;
+        bPos += count;
+      }
+    }
+  });
+  return out.build();
+}
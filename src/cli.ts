@@ -1,50 +1,314 @@
 #!/usr/bin/env node
 import React from 'react';
 import { render } from 'ink';
+import type { Instance } from 'ink';
 import { program } from 'commander';
 import { App } from './App.js';
-import { dumpDiff } from './dump.js';
-import { readFileSync } from 'fs';
+import { FilesApp } from './FilesApp.js';
+import type { FileEntry } from './FilesApp.js';
+import { dumpSections } from './dump.js';
+import { countChanges, formatStat } from './stat.js';
+import { formatJson, formatHtml, DUMP_FORMATS } from './formats.js';
+import type { DumpFormat, DumpFile } from './formats.js';
+import { parsePatch, patchFileEntry, formatSectionsPatch, formatGitHeader, createPatchStream, PATCH_BASES, DEV_NULL } from './patch.js';
+import type { PatchBase, PatchFile } from './patch.js';
+import { loadGitFiles } from './git.js';
+import { loadDirectoryFiles, isDirectory } from './dirs.js';
+import { basename, dirname, join } from 'path';
+import { computeDiff, sectionHasChanges, DIFF_ALGORITHMS, MAX_EDIT_LENGTH } from './diff.js';
+import type { DiffSection, DiffOptions, DiffAlgorithm } from './diff.js';
+import { DIFF_LAYOUTS, DEFAULT_LAYOUT, resolveLayout } from './layout.js';
+import type { DiffLayout } from './layout.js';
+import { LANGUAGES, findLanguage } from './syntax.js';
+import type { Language } from './syntax.js';
+import { mergeThreeWay, formatMerge, findConflicts } from './merge.js';
+import type { MergeSources } from './merge.js';
+import { readInput, inputLabel, openKeyboard, STDIN_PATH } from './input.js';
+
+// Accumulate repeatable options
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 program
   .name('diffuse')
   .description('Terminal-based diff viewer')
-  .argument('[file1]', 'First file to compare')
-  .argument('[file2]', 'Second file to compare')
+  .argument('[file1]', 'First file to compare (- reads stdin; a revision with --git)')
+  .argument('[file2]', 'Second file to compare (a revision with --git)')
   .option('-d, --diff <file>', 'Unified diff file to view')
+  .option('--merge', 'Three-way merge: diffuse --merge BASE LOCAL REMOTE -o MERGED (git mergetool compatible)')
+  .option('-o, --output <file>', 'Save the right side to <file> instead of the right file (required with --merge)')
+  .option('--export-patch <file>', 'Write a unified diff of the edits to <file> when quitting, if there are any (also the E default)')
+  .option('--patch-base <side>', 'What exported patches compare the edited right side against: left or right (its original)', 'left')
+  .option('--git', 'Compare git revisions / working tree: diffuse --git [rev] [rev2] [-- paths]')
+  .option('--include <glob>', 'Only compare matching files in directory mode (repeatable)', collect, [])
+  .option('--exclude <glob>', 'Skip matching files and directories in directory mode (repeatable)', collect, [])
+  .option('-Z, --ignore-trailing-space', 'Ignore whitespace at line end (including CR of CRLF)')
+  .option('-w, --ignore-all-space', 'Ignore all whitespace differences')
+  .option('-B, --ignore-blank-lines', 'Ignore changes that only insert or delete blank lines')
+  .option('-i, --ignore-case', 'Ignore case differences')
+  .option('--ignore-matching <regex>', 'Lines matching the regex never count as changes (repeatable)', collect, [])
+  .option('--mask <regex>', 'Replace matches with a placeholder before comparing (repeatable)', collect, [])
+  .option('--algorithm <name>', `Diff algorithm: ${DIFF_ALGORITHMS.join(', ')}`, 'myers')
+  .option('--layout <mode>', `View layout: ${DIFF_LAYOUTS.join(', ')} (auto picks unified in narrow terminals)`, DEFAULT_LAYOUT)
+  .option('--label-left <name>', 'Name shown for the left file (e.g. for stdin, which is shown as "stdin")')
+  .option('--label-right <name>', 'Name shown for the right file')
+  .option('--lang <name>', `Syntax highlighting language (${LANGUAGES.join(', ')} or none); detected from the file extension by default`)
+  .option('--backup', 'Keep a .orig copy of each file as it was before the first save')
+  .option('--history', 'Keep undo history per file pair between sessions, recovering unsaved edits after a quit')
+  .option('--watch', 'Re-read the two files when other programs change them (toggle with R)')
+  .option('--demo', 'Show a sample diff')
   .option('--dump', 'Dump diff output without interactive TUI (for testing)')
+  .option('--format <name>', `Dump format: ${DUMP_FORMATS.join(', ')} (implies --dump)`)
+  .option('-U, --unified <n>', 'Context lines for --format unified', '3')
+  .option('-q, --brief', 'Only report which files differ (exit status: 0 identical, 1 different, 2 trouble)')
+  .option('--quiet', 'Same as --brief')
+  .option('--stat', 'Print added / removed / changed line counts with a histogram, per file')
   .option('--width <n>', 'Terminal width for dump mode', '160')
   .option('--debug', 'Show debug info in dump mode')
   .option('--fold', 'Enable folding in dump mode')
+  .option('--wrap', 'Soft-wrap long lines instead of truncating (also the initial TUI setting)')
   .option('--scroll <n>', 'Scroll offset for dump mode (simulates scrolling)')
   .option('--view-height <n>', 'Viewport height for dump mode (simulates terminal)')
+  // Usage errors are trouble (2), like diff's; help and version still exit 0
+  .exitOverride(error => process.exit(error.exitCode === 0 ? 0 : 2))
   .parse();
 
 const options = program.opts();
 const args = program.args;
+// Print a result instead of opening the TUI
+const reporting = !!(options.dump || options.format || options.brief || options.quiet || options.stat);
+
+// Whether a file pair counts as different for the exit status and --brief / --stat. Pairs that
+// come with sections (patches, binary files) are only listed because they differ.
+function fileDiffers(file: FileEntry, sections: DiffSection[]): boolean {
+  if (file.status === 'identical') return false;
+  if (file.status === 'added' || file.status === 'removed' || file.sections) return true;
+  return sections.some(sectionHasChanges);
+}
+
+// Pager mode: files open as soon as each has arrived on stdin, and more are added while the
+// user reads. Input that holds no diff is printed as it is.
+function runPager(): void {
+  // Not a terminal (e.g. redirected): pass the stream through like other pagers
+  if (!process.stdout.isTTY) {
+    process.stdin.pipe(process.stdout);
+    return;
+  }
+
+  const stream = createPatchStream();
+  const files: FileEntry[] = [];
+  let instance: Instance | null = null;
+  let skipped = ''; // Input read before the first file, printed if no file ever comes
+
+  const show = (newFiles: PatchFile[], loading: boolean) => {
+    files.push(...newFiles.map(patchFileEntry));
+    if (files.length === 0) return;
+    const app = React.createElement(FilesApp, { files: [...files], loading, diffOptions, layout, wrap: !!options.wrap, language });
+    if (instance) {
+      instance.rerender(app);
+      return;
+    }
+    skipped = '';
+    instance = render(app, { stdin: keyboard() });
+    // Quitting before the input is over must not wait for the rest of it
+    instance.waitUntilExit().then(() => process.stdin.destroy());
+  };
+
+  process.stdin.setEncoding('utf-8');
+  process.stdin.on('data', (chunk: string) => {
+    if (!instance) skipped += chunk;
+    show(stream.write(chunk), true);
+  });
+  process.stdin.on('end', () => {
+    show(stream.end(), false);
+    if (!instance) process.stdout.write(skipped);
+  });
+}
+
+// Keys come from the terminal even when stdin carries one of the inputs
+function keyboard(): NodeJS.ReadStream {
+  try {
+    return openKeyboard();
+  } catch {
+    console.error('No terminal to read keys from (stdin is not a terminal and /dev/tty cannot be opened)');
+    process.exit(2);
+  }
+}
+
+// User-supplied patterns; a bad one is reported like a bad file argument
+function compilePatterns(sources: string[], flag: string): RegExp[] {
+  return sources.map(source => {
+    try {
+      return new RegExp(source);
+    } catch (error) {
+      console.error(`Invalid ${flag} pattern: ${error instanceof Error ? error.message : error}`);
+      process.exit(2);
+    }
+  });
+}
+
+if (!DIFF_ALGORITHMS.includes(options.algorithm)) {
+  console.error(`Unknown algorithm "${options.algorithm}" (expected ${DIFF_ALGORITHMS.join(', ')})`);
+  process.exit(2);
+}
+
+if (!DIFF_LAYOUTS.includes(options.layout)) {
+  console.error(`Unknown layout "${options.layout}" (expected ${DIFF_LAYOUTS.join(', ')})`);
+  process.exit(2);
+}
+const layout = options.layout as DiffLayout;
+
+if (!PATCH_BASES.includes(options.patchBase)) {
+  console.error(`Unknown patch base "${options.patchBase}" (expected ${PATCH_BASES.join(', ')})`);
+  process.exit(2);
+}
+const patchBase = options.patchBase as PatchBase;
+
+const format = (options.format ?? 'side-by-side') as DumpFormat;
+if (!DUMP_FORMATS.includes(format)) {
+  console.error(`Unknown format "${options.format}" (expected ${DUMP_FORMATS.join(', ')})`);
+  process.exit(2);
+}
+const unifiedContext = Number(options.unified);
+if (!Number.isInteger(unifiedContext) || unifiedContext < 0) {
+  console.error(`Invalid context line count "${options.unified}"`);
+  process.exit(2);
+}
+
+// undefined: detect per file from its extension; null: highlighting off
+let language: Language | null | undefined;
+if (options.lang !== undefined) {
+  language = options.lang === 'none' ? null : findLanguage(options.lang);
+  if (language === null && options.lang !== 'none') {
+    console.error(`Unknown language "${options.lang}" (expected ${LANGUAGES.join(', ')} or none)`);
+    process.exit(2);
+  }
+}
+
+const diffOptions: DiffOptions = {
+  ignoreTrailingWhitespace: !!options.ignoreTrailingSpace,
+  ignoreAllWhitespace: !!options.ignoreAllSpace,
+  ignoreBlankLines: !!options.ignoreBlankLines,
+  ignoreCase: !!options.ignoreCase,
+  ignoreMatching: compilePatterns(options.ignoreMatching, '--ignore-matching'),
+  masks: compilePatterns(options.mask, '--mask'),
+  algorithm: options.algorithm as DiffAlgorithm,
+  maxEditLength: MAX_EDIT_LENGTH,
+};
 
 let leftContent = '';
 let rightContent = '';
 let leftFile = '';
 let rightFile = '';
+// Set for multi-file inputs (patches); each entry is shown on its own
+let files: FileEntry[] | null = null;
+let showFileList = false;
+// Set for --diff, parallel to `files`
+let patchFiles: PatchFile[] | undefined;
+// Set for --merge
+let merge: MergeSources | undefined;
 
-if (options.diff) {
-  // TODO: Parse unified diff format
-  const diffContent = readFileSync(options.diff, 'utf-8');
-  leftContent = diffContent;
-  rightContent = diffContent;
-  leftFile = options.diff;
-  rightFile = options.diff;
+// Without file arguments, piped stdin is a diff to show - as when diffuse is git's pager
+const stdinDiff = args.length === 0 && !options.diff && !options.merge && !options.git && !options.demo && !process.stdin.isTTY;
+// The TUI opens as the diff arrives; reports read it all first
+const pager = stdinDiff && !reporting;
+const diffInput: string | undefined = options.diff ?? (stdinDiff ? STDIN_PATH : undefined);
+
+if (pager) {
+  // Read in runPager below
+} else if (diffInput) {
+  let diffContent: string;
+  try {
+    diffContent = readInput(diffInput);
+  } catch (error) {
+    console.error(`Error reading diff file: ${error}`);
+    process.exit(2);
+  }
+  patchFiles = parsePatch(diffContent);
+  // An empty diff on stdin just means nothing changed
+  if (patchFiles.length === 0 && (!stdinDiff || diffContent.trim() !== '')) {
+    console.error(`No file changes found in ${inputLabel(diffInput)}`);
+    process.exit(2);
+  }
+  files = patchFiles.map(patchFileEntry);
+} else if (options.output && !(options.merge || (args.length === 2 && !options.git))) {
+  console.error('--output needs two files or --merge');
+  process.exit(2);
+} else if (options.watch && (options.merge || options.git || args.length !== 2 || (isDirectory(args[0]) && isDirectory(args[1])))) {
+  console.error('--watch needs two files');
+  process.exit(2);
+} else if (options.merge) {
+  if (args.length !== 3 || !options.output) {
+    console.error('Usage: diffuse --merge BASE LOCAL REMOTE -o MERGED');
+    process.exit(2);
+  }
+  const [baseFile, localFile, remoteFile] = args;
+  try {
+    merge = {
+      base: readInput(baseFile),
+      local: readInput(localFile),
+      remote: readInput(remoteFile),
+      baseFile,
+      localFile,
+      remoteFile,
+    };
+  } catch (error) {
+    console.error(`Error reading files: ${error}`);
+    process.exit(2);
+  }
+  // Non-conflicting hunks are already merged; conflicts carry diff3-style markers
+  const chunks = mergeThreeWay(merge.base, merge.local, merge.remote, diffOptions.algorithm);
+  leftFile = baseFile;
+  leftContent = merge.base;
+  rightFile = options.output;
+  rightContent = formatMerge(chunks, { local: localFile, base: baseFile, remote: remoteFile });
+} else if (options.git) {
+  // Everything after `--` is a pathspec, the rest are revisions
+  const dashIndex = process.argv.indexOf('--');
+  const paths = dashIndex === -1 ? [] : process.argv.slice(dashIndex + 1);
+  const revs = args.slice(0, args.length - paths.length);
+  try {
+    files = loadGitFiles(revs, paths);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(2);
+  }
+  if (files.length === 0 && !reporting) {
+    console.log('No changes');
+    process.exit(0);
+  }
+} else if (args.length === 2 && isDirectory(args[0]) && isDirectory(args[1])) {
+  try {
+    files = loadDirectoryFiles(args[0], args[1], { include: options.include, exclude: options.exclude });
+  } catch (error) {
+    console.error(`Error reading directories: ${error}`);
+    process.exit(2);
+  }
+  if (files.length === 0 && !reporting) {
+    console.log('No files to compare');
+    process.exit(0);
+  }
+  showFileList = true;
 } else if (args.length === 2) {
   leftFile = args[0];
   rightFile = args[1];
+  if (leftFile === STDIN_PATH && rightFile === STDIN_PATH) {
+    console.error('Only one side can be read from stdin');
+    process.exit(2);
+  }
+  // Like diff(1): a file compared against a directory means the same-named file inside it
+  if (isDirectory(leftFile)) leftFile = join(leftFile, basename(rightFile));
+  if (isDirectory(rightFile)) rightFile = join(rightFile, basename(leftFile));
   try {
-    leftContent = readFileSync(leftFile, 'utf-8');
-    rightContent = readFileSync(rightFile, 'utf-8');
+    leftContent = readInput(leftFile);
+    rightContent = readInput(rightFile);
   } catch (error) {
     console.error(`Error reading files: ${error}`);
-    process.exit(1);
+    process.exit(2);
   }
+} else if (!options.demo) {
+  program.help({ error: true });
 } else {
   // Demo mode with sample diff
   leftFile = 'original.txt';
@@ -75,14 +339,110 @@ function world() {
 }`;
 }
 
-if (options.dump) {
-  // Dump mode - non-interactive output for testing
-  dumpDiff(leftContent, rightContent, leftFile, rightFile, {
-    width: parseInt(options.width, 10),
-    foldingEnabled: !!options.fold,
-    showDebug: !!options.debug,
-    scrollOffset: options.scroll ? parseInt(options.scroll, 10) : 0,
-    viewHeight: options.viewHeight ? parseInt(options.viewHeight, 10) : 0,
+// Names shown for a single pair of files (stdin has no path worth showing)
+const leftName = options.labelLeft ?? inputLabel(leftFile);
+const rightName = options.labelRight ?? inputLabel(rightFile);
+
+if (pager) {
+  runPager();
+} else if (reporting) {
+  // Exit like diff(1): 0 when nothing differs, 1 when something does
+  const pair = { leftFile: leftName, rightFile: rightName, leftContent, rightContent };
+  const compared = (files ?? [pair]).map((file: FileEntry, index) => {
+    const { sections, coarse } = file.sections
+      ? { sections: file.sections, coarse: false }
+      : computeDiff(file.leftContent, file.rightContent, diffOptions);
+    const notes = coarse ? [...(file.notes ?? []), `More than ${MAX_EDIT_LENGTH} lines differ - compared in chunks of lines`] : file.notes;
+    return { file, sections, notes, differs: fileDiffers(file, sections), source: patchFiles?.[index] };
+  });
+  process.exitCode = compared.some(entry => entry.differs) ? 1 : 0;
+  const differing = compared.filter(entry => entry.differs);
+  // Like diff -r, identical files of a listing are not printed (a single pair always is)
+  const shown = compared.filter(({ file }) => file.status !== 'identical');
+
+  if (options.brief || options.quiet) {
+    for (const { file } of differing) {
+      const only = file.status === 'added' ? file.rightFile : file.status === 'removed' ? file.leftFile : null;
+      console.log(only ? `Only in ${dirname(only)}: ${basename(only)}` : `Files ${file.leftFile} and ${file.rightFile} differ`);
+    }
+  } else if (options.stat) {
+    if (differing.length > 0) {
+      const stats = differing.map(({ file, sections }) => ({ name: file.label ?? file.rightFile, stat: countChanges(sections) }));
+      formatStat(stats, process.stdout.columns || 80).forEach(line => console.log(line));
+    }
+  } else if (format === 'json' || format === 'html') {
+    const dumpFiles: DumpFile[] = shown.map(({ file, sections, notes }) => ({
+      leftFile: file.leftFile,
+      rightFile: file.rightFile,
+      sections,
+      notes,
+    }));
+    if (format === 'json') console.log(formatJson(dumpFiles));
+    else process.stdout.write(formatHtml(dumpFiles));
+  } else if (format === 'unified') {
+    for (const { file, sections, source } of shown) {
+      // Files from a git patch keep its header, where renames, mode changes and binary files show
+      const header = source ? formatGitHeader(source) : [];
+      const prefix = header.length > 0 ? ['a/', 'b/'] : ['', ''];
+      // Like git, the missing side of an added or deleted file is /dev/null
+      const oldName = file.status === 'added' ? DEV_NULL : prefix[0] + file.leftFile;
+      const newName = file.status === 'removed' ? DEV_NULL : prefix[1] + file.rightFile;
+      if (header.length > 0) console.log(header.join('\n'));
+      // Sections parsed from a patch only cover its hunks
+      process.stdout.write(formatSectionsPatch(sections, oldName, newName, {
+        context: unifiedContext,
+        wholeFiles: !source,
+        oldNoNewlineAtEnd: source?.oldNoNewlineAtEnd,
+        newNoNewlineAtEnd: source?.newNoNewlineAtEnd,
+      }));
+    }
+  } else {
+    // Dump mode - non-interactive output for testing
+    const width = parseInt(options.width, 10);
+    const dumpOptions = {
+      width,
+      foldingEnabled: !!options.fold,
+      showDebug: !!options.debug,
+      scrollOffset: options.scroll ? parseInt(options.scroll, 10) : 0,
+      viewHeight: options.viewHeight ? parseInt(options.viewHeight, 10) : 0,
+      diffOptions,
+      layout: resolveLayout(layout, width),
+      wrap: !!options.wrap,
+    };
+    shown.forEach(({ file, sections, notes }, index) => {
+      if (index > 0) console.log('');
+      dumpSections(sections, file.leftFile, file.rightFile, dumpOptions, notes);
+    });
+  }
+} else if (files) {
+  render(
+    React.createElement(FilesApp, { files, showFileList, diffOptions, layout, wrap: !!options.wrap, language, persistHistory: !!options.history, backup: !!options.backup }),
+    { stdin: keyboard() }
+  );
+} else if (merge) {
+  // Like other mergetools, exit non-zero unless a result without conflict markers was saved
+  let saved: string | null = null;
+  const { waitUntilExit } = render(
+    React.createElement(App, {
+      leftContent,
+      rightContent,
+      leftFile,
+      rightFile,
+      onSave: (content: string) => {
+        saved = content;
+      },
+      diffOptions,
+      layout,
+      wrap: !!options.wrap,
+      language,
+      savePath: options.output,
+      merge,
+      backup: !!options.backup,
+    }),
+    { stdin: keyboard() }
+  );
+  waitUntilExit().then(() => {
+    process.exitCode = saved !== null && findConflicts(saved).length === 0 ? 0 : 1;
   });
 } else {
   render(
@@ -91,6 +451,19 @@ if (options.dump) {
       rightContent,
       leftFile,
       rightFile,
-    })
+      leftLabel: leftName,
+      rightLabel: rightName,
+      diffOptions,
+      layout,
+      wrap: !!options.wrap,
+      language,
+      savePath: options.output,
+      persistHistory: !!options.history,
+      backup: !!options.backup,
+      exportPatch: options.exportPatch,
+      patchBase,
+      watch: !!options.watch,
+    }),
+    { stdin: keyboard() }
   );
 }
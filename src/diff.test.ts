@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { computeDiffSections, getColorForType, getPrefixForType } from './diff.js';
+import { computeDiff, computeDiffSections, sectionHasChanges, computeInlineSpans, lineSimilarity, segmentLine, markSpans, getColorForType, getPrefixForType, getColorForLine, getPrefixForLine } from './diff.js';
 
 describe('computeDiffSections', () => {
   it('returns a single equal section for identical content', () => {
@@ -110,12 +110,303 @@ describe('computeDiffSections', () => {
   });
 });
 
+describe('computeDiffSections ignore options', () => {
+  const types = (sections: ReturnType<typeof computeDiffSections>) =>
+    sections.flatMap(s => [...s.leftLines, ...s.rightLines].map(l => l.type));
+
+  it('ignores trailing whitespace and CRLF line endings', () => {
+    const sections = computeDiffSections('a  \r\nb\r', 'a\nb', { ignoreTrailingWhitespace: true });
+    expect(types(sections).every(t => t === 'equal')).toBe(true);
+    // Each side still shows its own text
+    expect(sections[0].leftLines[0].content).toBe('a  \r');
+    expect(sections[0].rightLines[0].content).toBe('a');
+  });
+
+  it('ignores all whitespace changes', () => {
+    const left = 'if (x) {\n  return 1;\n}';
+    const right = 'if(x){\n    return  1;\n}';
+    expect(types(computeDiffSections(left, right, { ignoreTrailingWhitespace: true }))).toContain('remove');
+    expect(types(computeDiffSections(left, right, { ignoreAllWhitespace: true })).every(t => t === 'equal')).toBe(true);
+  });
+
+  it('ignores case differences', () => {
+    const sections = computeDiffSections('SELECT 1', 'select 1', { ignoreCase: true });
+    expect(types(sections).every(t => t === 'equal')).toBe(true);
+    expect(sections[0].rightLines[0].content).toBe('select 1');
+  });
+
+  it('ignores blank-line insertions but keeps real changes', () => {
+    const sections = computeDiffSections('a\nb\nc', 'a\n\n\nb\nC', { ignoreBlankLines: true });
+    expect(sections.filter(sectionHasChanges)).toHaveLength(1);
+    const blankRows = sections.flatMap(s => s.rightLines).filter(l => l.content === '');
+    expect(blankRows.every(l => l.type === 'equal')).toBe(true);
+  });
+
+  it('keeps line numbering consistent across ignored blank lines', () => {
+    const sections = computeDiffSections('a\nb', 'a\n\nb', { ignoreBlankLines: true });
+    const last = sections[sections.length - 1];
+    expect(last.leftStart).toBe(1);
+    expect(last.rightStart).toBe(2);
+  });
+});
+
+describe('computeDiffSections patterns and masks', () => {
+  const left = '2024-01-01T10:00:00 start job a1b2\nprocessing\n2024-01-01T10:00:05 done';
+  const right = '2024-01-02T09:30:00 start job ffee\nprocessing\n2024-01-02T09:30:07 done';
+
+  it('masks matched substrings before comparing', () => {
+    const sections = computeDiffSections(left, right, { masks: [/\d{4}-\d\d-\d\dT[\d:]+/, /[0-9a-f]{4}$/] });
+    expect(sections.some(sectionHasChanges)).toBe(false);
+    const first = sections[0];
+    expect(first.leftLines[0].suppressed).toBe(true);
+    expect(first.leftLines[1].suppressed).toBeUndefined();
+    expect(first.rightLines[0].content).toBe('2024-01-02T09:30:00 start job ffee');
+  });
+
+  it('still reports changes outside the masked text', () => {
+    const sections = computeDiffSections('at 10:00 ok', 'at 11:00 failed', { masks: [/\d\d:\d\d/] });
+    expect(sections.some(sectionHasChanges)).toBe(true);
+  });
+
+  it('never counts lines matching an ignore pattern as changes', () => {
+    const sections = computeDiffSections('a\n# built 1\nb', 'a\n# built 2\nB', { ignoreMatching: [/^# built/] });
+    const changed = sections.filter(sectionHasChanges);
+    expect(changed).toHaveLength(1);
+    expect(changed[0].leftLines.find(l => l.type === 'remove')!.content).toBe('b');
+    const ignored = sections.flatMap(s => s.leftLines).find(l => l.content === '# built 1')!;
+    expect(ignored).toMatchObject({ type: 'equal', suppressed: true });
+  });
+
+  it('colors and prefixes suppressed lines distinctly', () => {
+    expect(getColorForLine({ content: 'x', type: 'equal', suppressed: true })).toBe('blue');
+    expect(getPrefixForLine({ content: 'x', type: 'equal', suppressed: true })).toBe('~ ');
+    expect(getColorForLine({ content: 'x', type: 'add' })).toBe('green');
+  });
+});
+
+describe('diff algorithms', () => {
+  // Replacing one function with two others: Myers anchors on bare closing braces in between
+  const left = [
+    'function save() {',
+    '  if (dirty) {',
+    '    write();',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+  const right = [
+    'function reset() {',
+    '  if (x) {',
+    '    clear();',
+    '  }',
+    '  return;',
+    '}',
+    '',
+    'function parse() {',
+    '  for (const l of lines) {',
+    '    if (l) {',
+    '      handle(l);',
+    '    }',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  it('myers splits the replacement around matched braces', () => {
+    const sections = computeDiffSections(left, right, { algorithm: 'myers' });
+    expect(sections.filter(sectionHasChanges).length).toBeGreaterThan(1);
+  });
+
+  it.each(['patience', 'histogram'] as const)('%s keeps the replacement as one block', algorithm => {
+    const sections = computeDiffSections(left, right, { algorithm });
+    expect(sections.filter(sectionHasChanges)).toHaveLength(1);
+    // Only the shared closing lines at the end stay unchanged
+    const equal = sections.filter(s => !sectionHasChanges(s)).flatMap(s => s.leftLines.map(l => l.content));
+    expect(equal).toEqual(['  }', '}', '']);
+  });
+
+  it.each(['myers', 'patience', 'histogram'] as const)('%s reproduces both sides', algorithm => {
+    const cases = [
+      ['a\nb\nc\nd', 'a\nc\nd\ne'],
+      ['{\n}\n{\n}', '{\nx\n}\n'],
+      ['same\nsame\nsame', 'same\nother\nsame'],
+      ['', 'x'],
+      [left, right],
+    ];
+    for (const [l, r] of cases) {
+      const sections = computeDiffSections(l, r, { algorithm });
+      const leftText = sections.flatMap(s => s.leftLines).filter(x => x.type !== 'empty').map(x => x.content).join('\n');
+      const rightText = sections.flatMap(s => s.rightLines).filter(x => x.type !== 'empty').map(x => x.content).join('\n');
+      expect(leftText).toBe(l);
+      expect(rightText).toBe(r);
+    }
+  });
+
+  it('histogram handles thousands of scattered edits', () => {
+    // Every split leaves the rest of the file to diff, which used to nest one level per edit
+    for (const [count, every] of [[8000, 3], [20000, 10]]) {
+      const lines = Array.from({ length: count }, (_, i) => `line ${i}`);
+      const changed = lines.map((line, i) => i % every === 0 ? `${line} changed` : line);
+      const sections = computeDiffSections(lines.join('\n'), changed.join('\n'), { algorithm: 'histogram' });
+      expect(sections.filter(sectionHasChanges)).toHaveLength(Math.ceil(count / every));
+      const rightText = sections.flatMap(s => s.rightLines).filter(x => x.type !== 'empty').map(x => x.content).join('\n');
+      expect(rightText).toBe(changed.join('\n'));
+    }
+  });
+});
+
+describe('coarse fallback', () => {
+  const sideText = (lines: { type: string; content: string }[]) =>
+    lines.filter(line => line.type !== 'empty').map(line => line.content).join('\n');
+  const numbered = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix} ${i}`);
+
+  it('diffs line by line within maxEditLength', () => {
+    const result = computeDiff('a\nb\nc', 'a\nx\nc', { maxEditLength: 5 });
+    expect(result.coarse).toBe(false);
+  });
+
+  it.each(['myers', 'patience', 'histogram'] as const)('%s falls back to chunks past maxEditLength and reproduces both sides', algorithm => {
+    const left = [...numbered(200, 'same'), ...numbered(100, 'old'), ...numbered(200, 'tail')].join('\n');
+    const right = [...numbered(200, 'same'), ...numbered(120, 'new'), ...numbered(200, 'tail')].join('\n');
+    const result = computeDiff(left, right, { algorithm, maxEditLength: 50 });
+    expect(result.coarse).toBe(true);
+    expect(sideText(result.sections.flatMap(s => s.leftLines))).toBe(left);
+    expect(sideText(result.sections.flatMap(s => s.rightLines))).toBe(right);
+  });
+
+  it('counts edits histogram finds between its splits against maxEditLength', () => {
+    const lines = numbered(1000, 'line');
+    const changed = lines.map((line, i) => i % 10 === 0 ? `${line} changed` : line);
+    expect(computeDiff(lines.join('\n'), changed.join('\n'), { algorithm: 'histogram', maxEditLength: 200 }).coarse).toBe(false);
+    expect(computeDiff(lines.join('\n'), changed.join('\n'), { algorithm: 'histogram', maxEditLength: 150 }).coarse).toBe(true);
+  });
+
+  it('keeps unchanged chunks after an insertion equal', () => {
+    const lines = numbered(2000, 'line');
+    const changed = [...lines.slice(0, 500), 'inserted', ...lines.slice(500, 1500), ...lines.slice(1510)];
+    const result = computeDiff(lines.join('\n'), changed.join('\n'), { maxEditLength: 0 });
+    expect(result.coarse).toBe(true);
+    const equalRows = result.sections.filter(s => !sectionHasChanges(s)).reduce((sum, s) => sum + s.leftLines.length, 0);
+    // Only the chunks around the two edits are replaced
+    expect(equalRows).toBeGreaterThan(1800);
+    expect(sideText(result.sections.flatMap(s => s.rightLines))).toBe(changed.join('\n'));
+  });
+});
+
+describe('replace block pairing', () => {
+  // Rows of the single changed section as [left, right] content ('' for empty padding)
+  const changedRows = (left: string, right: string) => {
+    const section = computeDiffSections(left, right).find(s => s.leftLines.some(l => l.type === 'remove'))!;
+    return section.leftLines.map((l, i) => [l.content, section.rightLines[i].content]);
+  };
+
+  it('keeps edits side by side when a line is inserted in the middle', () => {
+    const left = 'start\nconst a = 1;\nconst b = 2;\nconst c = 3;\nend';
+    const right = 'start\nconst a = 10;\nconsole.log("inserted");\nconst b = 20;\nconst c = 30;\nend';
+    expect(changedRows(left, right)).toEqual([
+      ['const a = 1;', 'const a = 10;'],
+      ['', 'console.log("inserted");'],
+      ['const b = 2;', 'const b = 20;'],
+      ['const c = 3;', 'const c = 30;'],
+    ]);
+  });
+
+  it('keeps edits side by side when a line is removed from the middle', () => {
+    const left = 'x\nlet total = 0;\n// obsolete comment here\nlet count = 0;\ny';
+    const right = 'x\nlet total = 1;\nlet count = 1;\ny';
+    expect(changedRows(left, right)).toEqual([
+      ['let total = 0;', 'let total = 1;'],
+      ['// obsolete comment here', ''],
+      ['let count = 0;', 'let count = 1;'],
+    ]);
+  });
+
+  it('does not pair reordered lines with unrelated ones', () => {
+    const left = 'import { alpha } from "./alpha";\nimport { beta } from "./beta";';
+    const right = 'import { betaX } from "./beta";\nimport { alphaX } from "./alpha";';
+    const rows = changedRows(left, right);
+    for (const [l, r] of rows) {
+      if (l && r) {
+        expect(lineSimilarity(l, r)).toBeGreaterThan(0.9);
+      }
+    }
+    expect(rows).toHaveLength(3);
+  });
+
+  it('falls back to positional pairing when nothing is similar', () => {
+    expect(changedRows('foo\nbar', 'qux')).toEqual([['foo', 'qux'], ['bar', '']]);
+  });
+});
+
+describe('lineSimilarity', () => {
+  it('scores identical, related and unrelated lines', () => {
+    expect(lineSimilarity('  same  ', 'same')).toBe(1);
+    expect(lineSimilarity('const a = 1;', 'const a = 10;')).toBeGreaterThan(0.8);
+    expect(lineSimilarity('const a = 1;', 'return null;')).toBeLessThan(0.5);
+  });
+});
+
+describe('computeInlineSpans', () => {
+  it('marks only the changed word on each side', () => {
+    const spans = computeInlineSpans('timeout: 30', 'timeout: 60');
+    expect(spans).toEqual({ left: [{ start: 9, end: 11 }], right: [{ start: 9, end: 11 }] });
+  });
+
+  it('merges changes separated only by whitespace', () => {
+    const spans = computeInlineSpans('let a b = 1;', 'let x y = 1;');
+    expect(spans!.left).toEqual([{ start: 4, end: 7 }]);
+  });
+
+  it('returns null when the lines have too little in common', () => {
+    expect(computeInlineSpans('completely different', 'nothing shared here')).toBeNull();
+  });
+
+  it('is attached to paired lines by computeDiffSections', () => {
+    const sections = computeDiffSections('a\nport = 80\nz', 'a\nport = 8080\nz');
+    const changed = sections.find(s => s.leftLines.some(l => l.type === 'remove'))!;
+    expect(changed.leftLines[0].spans).toEqual([{ start: 7, end: 9 }]);
+    expect(changed.rightLines[0].spans).toEqual([{ start: 7, end: 11 }]);
+  });
+
+  it('leaves unpaired lines without spans', () => {
+    const sections = computeDiffSections('a', 'a\nb');
+    const added = sections.flatMap(s => s.rightLines).find(l => l.type === 'add')!;
+    expect(added.spans).toBeUndefined();
+  });
+});
+
+describe('segmentLine', () => {
+  it('splits content around spans', () => {
+    expect(segmentLine('abcdef', [{ start: 2, end: 4 }])).toEqual([
+      { text: 'ab', changed: false },
+      { text: 'cd', changed: true },
+      { text: 'ef', changed: false },
+    ]);
+  });
+
+  it('clips segments to the visible window', () => {
+    expect(segmentLine('abcdef', [{ start: 2, end: 4 }], 3, 2)).toEqual([
+      { text: 'd', changed: true },
+      { text: 'e', changed: false },
+    ]);
+  });
+});
+
+describe('markSpans', () => {
+  it('wraps changed text in wdiff-style markers', () => {
+    expect(markSpans({ content: 'x = 1', type: 'remove', spans: [{ start: 4, end: 5 }] })).toBe('x = [-1-]');
+    expect(markSpans({ content: 'x = 2', type: 'add', spans: [{ start: 4, end: 5 }] })).toBe('x = {+2+}');
+    expect(markSpans({ content: 'x', type: 'equal' })).toBe('x');
+  });
+});
+
 describe('getColorForType', () => {
   it('returns correct colors', () => {
     expect(getColorForType('add')).toBe('green');
     expect(getColorForType('remove')).toBe('red');
     expect(getColorForType('equal')).toBe('white');
     expect(getColorForType('empty')).toBe('gray');
+    expect(getColorForType('moved')).toBe('magenta');
   });
 });
 
@@ -125,5 +416,6 @@ describe('getPrefixForType', () => {
     expect(getPrefixForType('remove')).toBe('- ');
     expect(getPrefixForType('equal')).toBe('  ');
     expect(getPrefixForType('empty')).toBe('  ');
+    expect(getPrefixForType('moved')).toBe('» ');
   });
 });
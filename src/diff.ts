@@ -1,8 +1,29 @@
 import * as Diff from 'diff';
+import { diffLineArrays, diffLineChunks } from './algorithms.js';
+import { markMovedBlocks } from './moves.js';
+import type { DiffAlgorithm } from './algorithms.js';
+
+export { DIFF_ALGORITHMS } from './algorithms.js';
+export type { DiffAlgorithm } from './algorithms.js';
+
+// Character range [start, end) within a line's content
+export interface InlineSpan {
+  start: number;
+  end: number;
+}
 
 export interface DiffLine {
   content: string;
-  type: 'equal' | 'remove' | 'add' | 'empty';
+  type: 'equal' | 'remove' | 'add' | 'empty' | 'moved';
+  spans?: InlineSpan[]; // Changed ranges, set on remove/add lines that are paired with each other
+  suppressed?: boolean; // Counted as equal only because of a mask or ignore pattern
+  moveId?: number; // Shared by both ends of a moved block ('moved' lines only)
+}
+
+// A run of characters that is either part of a changed span or not
+export interface LineSegment {
+  text: string;
+  changed: boolean;
 }
 
 export interface DiffSection {
@@ -12,15 +33,200 @@ export interface DiffSection {
   rightLines: DiffLine[];
 }
 
-export function computeDiffSections(left: string, right: string): DiffSection[] {
+// A run of lines that are unchanged, removed or added (the shape Diff.diffArrays returns)
+export interface LineChange {
+  value: string[];
+  added?: boolean;
+  removed?: boolean;
+  rightValue?: string[]; // Right side's text for unchanged runs, when it differs only in an ignored way
+  ignored?: boolean; // Added/removed run hidden by an ignore option - rendered as equal
+}
+
+// Differences to treat as equal when comparing lines
+export interface DiffOptions {
+  ignoreTrailingWhitespace?: boolean;
+  ignoreAllWhitespace?: boolean;
+  ignoreBlankLines?: boolean;
+  ignoreCase?: boolean;
+  ignoreMatching?: RegExp[]; // Lines matching any of these never count as changes (use non-global patterns)
+  masks?: RegExp[]; // Matched substrings are replaced by a placeholder before comparing
+  algorithm?: DiffAlgorithm; // Defaults to Myers
+  maxEditLength?: number; // Past this many differing lines, fall back to a coarse diff of chunks of lines
+}
+
+// Edit distance the interactive view and reports diff line by line before falling back to chunks;
+// Myers' cost grows with it (a few seconds at this length on files of tens of thousands of lines)
+export const MAX_EDIT_LENGTH = 5000;
+
+export interface DiffResult {
+  sections: DiffSection[];
+  coarse: boolean; // The inputs differed past maxEditLength and were compared in chunks of lines
+}
+
+// Placeholder for masked text; a NUL byte cannot collide with real line content
+const MASK_PLACEHOLDER = '\0';
+
+// Comparison key for a line under the given options
+function getLineNormalizer(options: DiffOptions): (line: string) => string {
+  return (line: string) => {
+    let key = line;
+    for (const mask of options.masks ?? []) {
+      key = key.replace(new RegExp(mask.source, mask.flags.includes('g') ? mask.flags : mask.flags + 'g'), MASK_PLACEHOLDER);
+    }
+    if (options.ignoreAllWhitespace) {
+      key = key.replace(/\s+/g, '');
+    } else if (options.ignoreTrailingWhitespace) {
+      // Also covers CRLF vs LF, since \r is trailing whitespace
+      key = key.replace(/\s+$/, '');
+    }
+    if (options.ignoreCase) {
+      key = key.toLowerCase();
+    }
+    return key;
+  };
+}
+
+
+export function computeDiffSections(left: string, right: string, options: DiffOptions = {}): DiffSection[] {
+  return computeDiff(left, right, options).sections;
+}
+
+// Sections of a line by line diff, or undefined (without a fallback) past options.maxEditLength
+export function computeExactDiff(left: string, right: string, options: DiffOptions = {}): DiffSection[] | undefined {
   const leftLines = left.split('\n');
   const rightLines = right.split('\n');
+  const normalize = getLineNormalizer(options);
+  const keyChanges = diffLineArrays(leftLines.map(normalize), rightLines.map(normalize), options.algorithm, options.maxEditLength);
+  return keyChanges && buildSections(leftLines, rightLines, keyChanges, options);
+}
 
-  const changes = Diff.diffArrays(leftLines, rightLines);
+// A line by line diff, or past options.maxEditLength a coarse one of chunks of lines
+export function computeDiff(left: string, right: string, options: DiffOptions = {}): DiffResult {
+  const exact = computeExactDiff(left, right, options);
+  if (exact) return { sections: exact, coarse: false };
 
-  const sections: DiffSection[] = [];
+  const leftLines = left.split('\n');
+  const rightLines = right.split('\n');
+  const normalize = getLineNormalizer(options);
+  const keyChanges = diffLineChunks(leftLines.map(normalize), rightLines.map(normalize));
+  return { sections: buildSections(leftLines, rightLines, keyChanges, options), coarse: true };
+}
+
+// Diff runs were found on normalized keys; map each back to the original text of both sides
+function buildSections(leftLines: string[], rightLines: string[], keyChanges: LineChange[], options: DiffOptions): DiffSection[] {
+  const changes: LineChange[] = [];
   let leftIndex = 0;
   let rightIndex = 0;
+  for (const change of keyChanges) {
+    const count = change.value.length;
+    if (change.removed) {
+      changes.push({ value: leftLines.slice(leftIndex, leftIndex + count), removed: true });
+      leftIndex += count;
+    } else if (change.added) {
+      changes.push({ value: rightLines.slice(rightIndex, rightIndex + count), added: true });
+      rightIndex += count;
+    } else {
+      changes.push({
+        value: leftLines.slice(leftIndex, leftIndex + count),
+        rightValue: rightLines.slice(rightIndex, rightIndex + count),
+      });
+      leftIndex += count;
+      rightIndex += count;
+    }
+  }
+
+  const ignorePatterns = options.ignoreMatching ?? [];
+  const sections = sectionsFromChanges(
+    options.ignoreBlankLines || ignorePatterns.length > 0 ? markIgnoredChanges(changes, options) : changes
+  );
+
+  if (ignorePatterns.length > 0 || (options.masks ?? []).length > 0) {
+    markSuppressedLines(sections, options);
+  }
+  markMovedBlocks(sections);
+  return sections;
+}
+
+function isIgnorableLine(line: string, options: DiffOptions): boolean {
+  if (options.ignoreBlankLines && line.trim() === '') return true;
+  return (options.ignoreMatching ?? []).some(pattern => pattern.test(line));
+}
+
+// Split added/removed runs so lines hidden by -B / --ignore-matching become ignored runs
+function markIgnoredChanges(changes: LineChange[], options: DiffOptions): LineChange[] {
+  const result: LineChange[] = [];
+
+  // Consecutive lines of a run grouped by whether they can be ignored
+  const splitRun = (change: LineChange): LineChange[] => {
+    const runs: LineChange[] = [];
+    for (const line of change.value) {
+      const ignored = isIgnorableLine(line, options);
+      const last = runs[runs.length - 1];
+      if (!last || !!last.ignored !== ignored) {
+        runs.push({ value: [line], added: change.added, removed: change.removed, ignored });
+      } else {
+        last.value.push(line);
+      }
+    }
+    return runs;
+  };
+
+  for (let i = 0; i < changes.length; i++) {
+    const change = changes[i];
+    if (change.removed && i + 1 < changes.length && changes[i + 1].added) {
+      // Emit ignored runs first on whichever side has one, so the real removed and
+      // added runs stay adjacent and still get paired as edits
+      const removed = splitRun(change);
+      const added = splitRun(changes[i + 1]);
+      while (removed.length > 0 || added.length > 0) {
+        if (removed.length > 0 && (removed[0].ignored || added.length === 0)) {
+          result.push(removed.shift()!);
+        } else if (added.length > 0 && (added[0].ignored || removed.length === 0)) {
+          result.push(added.shift()!);
+        } else {
+          result.push(removed.shift()!, added.shift()!);
+        }
+      }
+      i++;
+    } else if (change.removed || change.added) {
+      result.push(...splitRun(change));
+    } else {
+      result.push(change);
+    }
+  }
+  return result;
+}
+
+// Flag lines whose difference was hidden by a mask or ignore pattern, so they can be colored
+function markSuppressedLines(sections: DiffSection[], options: DiffOptions): void {
+  const unmasked = getLineNormalizer({ ...options, masks: [] });
+  const patterns = options.ignoreMatching ?? [];
+  for (const section of sections) {
+    for (let i = 0; i < section.leftLines.length; i++) {
+      const left = section.leftLines[i];
+      const right = section.rightLines[i];
+      if (left.type === 'equal' && right.type === 'equal') {
+        if (unmasked(left.content) !== unmasked(right.content)) {
+          left.suppressed = true;
+          right.suppressed = true;
+        }
+      } else {
+        for (const line of [left, right]) {
+          if (line.type === 'equal' && patterns.some(pattern => pattern.test(line.content))) {
+            line.suppressed = true;
+          }
+        }
+      }
+    }
+  }
+}
+
+// Build aligned sections from a change list. leftStart/rightStart are the 0-based
+// line numbers of the first change, so partial inputs (e.g. patch hunks) keep real numbering.
+export function sectionsFromChanges(changes: LineChange[], leftStart = 0, rightStart = 0): DiffSection[] {
+  const sections: DiffSection[] = [];
+  let leftIndex = leftStart;
+  let rightIndex = rightStart;
 
   for (let i = 0; i < changes.length; i++) {
     const change = changes[i];
@@ -33,23 +239,37 @@ export function computeDiffSections(left: string, right: string): DiffSection[]
       rightLines: [],
     };
 
-    if (change.removed && i + 1 < changes.length && changes[i + 1].added) {
+    if (change.removed && change.ignored && i + 1 < changes.length && changes[i + 1].added && changes[i + 1].ignored) {
+      // Ignored replace block (blank lines only) - lay both sides out as unchanged
+      const nextLines = changes[i + 1].value;
+      const maxLen = Math.max(lines.length, nextLines.length);
+      for (let j = 0; j < maxLen; j++) {
+        section.leftLines.push(j < lines.length ? { content: lines[j], type: 'equal' } : { content: '', type: 'empty' });
+        section.rightLines.push(j < nextLines.length ? { content: nextLines[j], type: 'equal' } : { content: '', type: 'empty' });
+      }
+      leftIndex += lines.length;
+      rightIndex += nextLines.length;
+      i++; // Skip next change (already processed)
+    } else if (change.removed && !change.ignored && i + 1 < changes.length && changes[i + 1].added && !changes[i + 1].ignored) {
       // Removed followed by added - merge with vertical alignment
       const nextChange = changes[i + 1];
       const nextLines = Array.isArray(nextChange.value) ? nextChange.value : [nextChange.value];
 
-      const maxLen = Math.max(lines.length, nextLines.length);
+      for (const [leftRow, rightRow] of alignReplaceBlock(lines, nextLines)) {
+        // Lines paired across the divider get word-level change spans
+        const inline = leftRow !== null && rightRow !== null
+          ? computeInlineSpans(lines[leftRow], nextLines[rightRow])
+          : null;
 
-      for (let j = 0; j < maxLen; j++) {
-        if (j < lines.length) {
-          section.leftLines.push({ content: lines[j], type: 'remove' });
+        if (leftRow !== null) {
+          section.leftLines.push(inline ? { content: lines[leftRow], type: 'remove', spans: inline.left } : { content: lines[leftRow], type: 'remove' });
           leftIndex++;
         } else {
           section.leftLines.push({ content: '', type: 'empty' });
         }
 
-        if (j < nextLines.length) {
-          section.rightLines.push({ content: nextLines[j], type: 'add' });
+        if (rightRow !== null) {
+          section.rightLines.push(inline ? { content: nextLines[rightRow], type: 'add', spans: inline.right } : { content: nextLines[rightRow], type: 'add' });
           rightIndex++;
         } else {
           section.rightLines.push({ content: '', type: 'empty' });
@@ -60,19 +280,21 @@ export function computeDiffSections(left: string, right: string): DiffSection[]
     } else if (change.added) {
       for (const line of lines) {
         section.leftLines.push({ content: '', type: 'empty' });
-        section.rightLines.push({ content: line, type: 'add' });
+        section.rightLines.push({ content: line, type: change.ignored ? 'equal' : 'add' });
         rightIndex++;
       }
     } else if (change.removed) {
       for (const line of lines) {
-        section.leftLines.push({ content: line, type: 'remove' });
+        section.leftLines.push({ content: line, type: change.ignored ? 'equal' : 'remove' });
         section.rightLines.push({ content: '', type: 'empty' });
         leftIndex++;
       }
     } else {
-      for (const line of lines) {
-        section.leftLines.push({ content: line, type: 'equal' });
-        section.rightLines.push({ content: line, type: 'equal' });
+      // Each side keeps its own text when they differ only in an ignored way
+      const rightValues = change.rightValue ?? lines;
+      for (let j = 0; j < lines.length; j++) {
+        section.leftLines.push({ content: lines[j], type: 'equal' });
+        section.rightLines.push({ content: rightValues[j], type: 'equal' });
         leftIndex++;
         rightIndex++;
       }
@@ -86,22 +308,229 @@ export function computeDiffSections(left: string, right: string): DiffSection[]
   return sections;
 }
 
+// Whether a section contains real changes (ignored differences and padding don't count)
+export function sectionHasChanges(section: DiffSection): boolean {
+  return section.leftLines.some(isChangedLine) || section.rightLines.some(isChangedLine);
+}
+
+const isChangedLine = (line: DiffLine) => line.type === 'remove' || line.type === 'add' || line.type === 'moved';
+
+// Number of real (non-padding) lines in lines[start, end)
+export function countRealLines(lines: DiffLine[], start = 0, end = lines.length): number {
+  let count = 0;
+  for (let i = start; i < end && i < lines.length; i++) {
+    if (lines[i].type !== 'empty') count++;
+  }
+  return count;
+}
+
+// Similarity two lines must exceed to be treated as an edit of each other
+export const PAIR_THRESHOLD = 0.5;
+// Larger replace blocks fall back to positional pairing to keep alignment cheap
+const MAX_ALIGN_CELLS = 250_000;
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const trimmed = text.trim();
+  for (let i = 0; i < trimmed.length - 1; i++) {
+    const pair = trimmed.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character bigrams: 1 for identical lines, 0 for nothing in common
+export function lineSimilarity(a: string, b: string): number {
+  return bigramSimilarity(a, b, bigrams(a), bigrams(b));
+}
+
+function bigramSimilarity(a: string, b: string, aPairs: Map<string, number>, bPairs: Map<string, number>): number {
+  if (a.trim() === b.trim()) return 1;
+  let aTotal = 0;
+  let bTotal = 0;
+  let shared = 0;
+  for (const count of aPairs.values()) aTotal += count;
+  for (const [pair, count] of bPairs) {
+    bTotal += count;
+    shared += Math.min(count, aPairs.get(pair) || 0);
+  }
+  if (aTotal + bTotal === 0) return 0;
+  return (2 * shared) / (aTotal + bTotal);
+}
+
+// Pair rows of a replace block: similar lines are aligned side by side (best-scoring
+// monotone matching), lines between those anchors are paired by position and the
+// remainder gets an empty partner. Returns [leftIndex, rightIndex] rows, null = empty.
+function alignReplaceBlock(removed: string[], added: string[]): Array<[number | null, number | null]> {
+  const anchors: Array<[number, number]> = [];
+
+  if (removed.length * added.length <= MAX_ALIGN_CELLS) {
+    const removedPairs = removed.map(bigrams);
+    const addedPairs = added.map(bigrams);
+    const cols = added.length + 1;
+    // score[i][j] = best total margin above the threshold aligning removed[i..] with added[j..].
+    // Scoring the margin rather than raw similarity keeps two mediocre pairs (e.g. lines that
+    // only share boilerplate) from outweighing one close match.
+    const score = new Float64Array((removed.length + 1) * cols);
+    const similarity = new Float64Array(removed.length * added.length);
+
+    for (let i = removed.length - 1; i >= 0; i--) {
+      for (let j = added.length - 1; j >= 0; j--) {
+        const sim = bigramSimilarity(removed[i], added[j], removedPairs[i], addedPairs[j]);
+        similarity[i * added.length + j] = sim;
+        const diagonal = sim > PAIR_THRESHOLD ? sim - PAIR_THRESHOLD + score[(i + 1) * cols + j + 1] : -1;
+        score[i * cols + j] = Math.max(diagonal, score[(i + 1) * cols + j], score[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < removed.length && j < added.length) {
+      const sim = similarity[i * added.length + j];
+      if (sim > PAIR_THRESHOLD && score[i * cols + j] === sim - PAIR_THRESHOLD + score[(i + 1) * cols + j + 1]) {
+        anchors.push([i, j]);
+        i++;
+        j++;
+      } else if (score[i * cols + j] === score[(i + 1) * cols + j]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  const rows: Array<[number | null, number | null]> = [];
+  let leftPos = 0;
+  let rightPos = 0;
+  for (const [anchorLeft, anchorRight] of [...anchors, [removed.length, added.length]]) {
+    // Position-pair the unmatched lines before this anchor
+    const gap = Math.max(anchorLeft - leftPos, anchorRight - rightPos);
+    for (let k = 0; k < gap; k++) {
+      rows.push([leftPos + k < anchorLeft ? leftPos + k : null, rightPos + k < anchorRight ? rightPos + k : null]);
+    }
+    if (anchorLeft < removed.length) {
+      rows.push([anchorLeft, anchorRight]);
+    }
+    leftPos = anchorLeft + 1;
+    rightPos = anchorRight + 1;
+  }
+  return rows;
+}
+
+// Append a span, merging it with the previous one when only whitespace separates them
+function pushSpan(spans: InlineSpan[], span: InlineSpan, text: string): void {
+  const last = spans[spans.length - 1];
+  if (last && text.slice(last.end, span.start).trim() === '') {
+    last.end = span.end;
+  } else {
+    spans.push(span);
+  }
+}
+
+// Word-level changed ranges for a removed/added line pair. Returns null when the lines
+// share too little to make highlighting useful (the whole line is the change).
+export function computeInlineSpans(oldText: string, newText: string): { left: InlineSpan[]; right: InlineSpan[] } | null {
+  if (oldText === newText) return { left: [], right: [] };
+
+  const changes = Diff.diffWordsWithSpace(oldText, newText);
+  const left: InlineSpan[] = [];
+  const right: InlineSpan[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  let common = 0;
+
+  for (const change of changes) {
+    const length = change.value.length;
+    if (change.removed) {
+      pushSpan(left, { start: oldPos, end: oldPos + length }, oldText);
+      oldPos += length;
+    } else if (change.added) {
+      pushSpan(right, { start: newPos, end: newPos + length }, newText);
+      newPos += length;
+    } else {
+      common += change.value.trim().length;
+      oldPos += length;
+      newPos += length;
+    }
+  }
+
+  const longest = Math.max(oldText.trim().length, newText.trim().length);
+  if (common * 4 < longest) return null;
+
+  return { left, right };
+}
+
+// Split content into changed/unchanged segments, limited to the window [from, from + width)
+export function segmentLine(content: string, spans: InlineSpan[] = [], from = 0, width = Infinity): LineSegment[] {
+  const end = Math.min(content.length, from + width);
+  const segments: LineSegment[] = [];
+  let pos = from;
+
+  for (const span of spans) {
+    if (span.end <= pos) continue;
+    if (span.start >= end) break;
+    if (span.start > pos) {
+      segments.push({ text: content.slice(pos, span.start), changed: false });
+      pos = span.start;
+    }
+    const spanEnd = Math.min(span.end, end);
+    segments.push({ text: content.slice(pos, spanEnd), changed: true });
+    pos = spanEnd;
+  }
+  if (pos < end) {
+    segments.push({ text: content.slice(pos, end), changed: false });
+  }
+
+  return segments;
+}
+
+// Plain-text rendering of changed spans for non-color output: [-removed-] and {+added+}
+export function markSpans(line: DiffLine): string {
+  if (!line.spans || line.spans.length === 0) return line.content;
+  const [open, close] = line.type === 'remove' ? ['[-', '-]'] : ['{+', '+}'];
+  return segmentLine(line.content, line.spans)
+    .map(segment => segment.changed ? `${open}${segment.text}${close}` : segment.text)
+    .join('');
+}
+
+// Background tint marking a line's status when its text is syntax highlighted
+export function getBackgroundForType(type: DiffLine['type']): string | undefined {
+  switch (type) {
+    case 'add': return '#143d1e';
+    case 'remove': return '#4a1a1a';
+    case 'moved': return '#3a1a44';
+    default: return undefined;
+  }
+}
+
 export function getColorForType(type: DiffLine['type']): string {
   switch (type) {
     case 'add': return 'green';
     case 'remove': return 'red';
     case 'equal': return 'white';
     case 'empty': return 'gray';
+    case 'moved': return 'magenta';
     default: return 'white';
   }
 }
 
+// Color for a rendered line: suppressed differences get their own color
+export function getColorForLine(line: DiffLine): string {
+  return line.suppressed ? 'blue' : getColorForType(line.type);
+}
+
+// Gutter prefix for a rendered line: '~ ' marks a suppressed difference
+export function getPrefixForLine(line: DiffLine): string {
+  return line.suppressed ? '~ ' : getPrefixForType(line.type);
+}
+
 export function getPrefixForType(type: DiffLine['type']): string {
   switch (type) {
     case 'add': return '+ ';
     case 'remove': return '- ';
     case 'equal': return '  ';
     case 'empty': return '  ';
+    case 'moved': return '» ';
     default: return '  ';
   }
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { matchesGlob, loadDirectoryFiles } from './dirs.js';
+
+describe('matchesGlob', () => {
+  it('matches file names at any depth when the glob has no slash', () => {
+    expect(matchesGlob('src/deep/file.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('src/deep/file.tsx', '*.ts')).toBe(false);
+  });
+
+  it('keeps * within one directory and lets ** cross them', () => {
+    expect(matchesGlob('src/a.ts', 'src/*.ts')).toBe(true);
+    expect(matchesGlob('src/lib/a.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/lib/a.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/a.ts', 'src/**/*.ts')).toBe(true);
+  });
+
+  it('supports ?, character classes and alternatives', () => {
+    expect(matchesGlob('a1.txt', 'a?.txt')).toBe(true);
+    expect(matchesGlob('a12.txt', 'a?.txt')).toBe(false);
+    expect(matchesGlob('b.txt', '[ab].txt')).toBe(true);
+    expect(matchesGlob('c.txt', '[!ab].txt')).toBe(true);
+    expect(matchesGlob('x.json', '*.{json,yaml}')).toBe(true);
+    expect(matchesGlob('x.yml', '*.{json,yaml}')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesGlob('a+b.txt', 'a+b.txt')).toBe(true);
+    expect(matchesGlob('aab.txt', 'a+b.txt')).toBe(false);
+  });
+});
+
+describe('loadDirectoryFiles', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'diffuse-dirs-'));
+    for (const side of ['left', 'right']) {
+      mkdirSync(join(root, side, 'sub'), { recursive: true });
+      mkdirSync(join(root, side, 'build'), { recursive: true });
+      writeFileSync(join(root, side, 'same.txt'), 'same\n');
+      writeFileSync(join(root, side, 'build', 'out.js'), side);
+    }
+    writeFileSync(join(root, 'left', 'sub', 'changed.ts'), 'a\n');
+    writeFileSync(join(root, 'right', 'sub', 'changed.ts'), 'b\n');
+    writeFileSync(join(root, 'left', 'gone.txt'), 'gone\n');
+    writeFileSync(join(root, 'right', 'new.txt'), 'new\n');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('pairs files by relative path and marks their status', () => {
+    const files = loadDirectoryFiles(join(root, 'left'), join(root, 'right'), { include: [], exclude: [] });
+    const statuses = Object.fromEntries(files.map(f => [f.label, f.status]));
+    expect(statuses).toEqual({
+      'build/out.js': 'modified',
+      'gone.txt': 'removed',
+      'new.txt': 'added',
+      'same.txt': 'identical',
+      'sub/changed.ts': 'modified',
+    });
+  });
+
+  it('applies include and exclude globs', () => {
+    const files = loadDirectoryFiles(join(root, 'left'), join(root, 'right'), { include: ['*.ts', '*.js'], exclude: ['build'] });
+    expect(files.map(f => f.label)).toEqual(['sub/changed.ts']);
+  });
+
+  it('follows linked directories but not links back up the tree', () => {
+    for (const side of ['loop-left', 'loop-right']) {
+      mkdirSync(join(root, side, 'sub'), { recursive: true });
+      writeFileSync(join(root, side, 'sub', 'file.txt'), side);
+      symlinkSync('..', join(root, side, 'sub', 'up'));
+      symlinkSync('sub', join(root, side, 'linked'));
+    }
+    const files = loadDirectoryFiles(join(root, 'loop-left'), join(root, 'loop-right'), { include: [], exclude: [] });
+    expect(files.map(f => f.label)).toEqual(['linked/file.txt', 'sub/file.txt']);
+  });
+});
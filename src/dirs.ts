@@ -0,0 +1,134 @@
+// Directory comparison
+// Walks two trees and pairs files by relative path
+
+import { readdirSync, readFileSync, realpathSync, statSync } from 'fs';
+import { join, relative, sep } from 'path';
+import type { FileEntry } from './FilesApp.js';
+
+export interface DirOptions {
+  include: string[]; // Globs a file must match (any of) to be compared; empty means all
+  exclude: string[]; // Globs that drop a file (or a whole directory) from the comparison
+}
+
+// Convert a glob to a RegExp: `**` crosses directories, `*` and `?` stay within one, `{a,b}` alternates
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const close = glob.indexOf('}', i);
+      if (close === -1) {
+        pattern += '\\{';
+      } else {
+        const options = glob.slice(i + 1, close).split(',').map(o => globToRegExp(o).source.slice(1, -1));
+        pattern += `(?:${options.join('|')})`;
+        i = close;
+      }
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i);
+      if (close === -1) {
+        pattern += '\\[';
+      } else {
+        pattern += glob.slice(i, close + 1).replace(/^\[!/, '[^');
+        i = close;
+      }
+    } else {
+      pattern += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// Patterns without a slash match the file name at any depth, like .gitignore
+export function matchesGlob(relPath: string, glob: string): boolean {
+  const regex = globToRegExp(glob);
+  if (!glob.includes('/')) {
+    const name = relPath.slice(relPath.lastIndexOf('/') + 1);
+    return regex.test(name);
+  }
+  return regex.test(relPath);
+}
+
+export function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Relative file paths under root, using '/' separators on every platform
+function listFiles(root: string, options: DirOptions): string[] {
+  const files: string[] = [];
+  // Real paths of the directories being walked, so a link back to one of them is not followed
+  const ancestors = new Set<string>();
+  const walk = (dir: string) => {
+    const real = realpathSync(dir);
+    if (ancestors.has(real)) return;
+    ancestors.add(real);
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      const relPath = relative(root, fullPath).split(sep).join('/');
+      if (options.exclude.some(glob => matchesGlob(relPath, glob))) continue;
+      // Follow symlinks so linked files and directories are compared by content
+      const isDir = entry.isDirectory() || (entry.isSymbolicLink() && isDirectory(fullPath));
+      if (isDir) {
+        walk(fullPath);
+      } else if (options.include.length === 0 || options.include.some(glob => matchesGlob(relPath, glob))) {
+        files.push(relPath);
+      }
+    }
+    ancestors.delete(real);
+  };
+  walk(root);
+  return files;
+}
+
+// Compare two directory trees, one entry per relative path found on either side
+export function loadDirectoryFiles(leftDir: string, rightDir: string, options: DirOptions): FileEntry[] {
+  const leftFiles = new Set(listFiles(leftDir, options));
+  const rightFiles = new Set(listFiles(rightDir, options));
+  const allFiles = [...new Set([...leftFiles, ...rightFiles])].sort();
+
+  return allFiles.map(relPath => {
+    const leftFile = join(leftDir, relPath);
+    const rightFile = join(rightDir, relPath);
+    const leftBuffer = leftFiles.has(relPath) ? readFileSync(leftFile) : null;
+    const rightBuffer = rightFiles.has(relPath) ? readFileSync(rightFile) : null;
+
+    const status = !leftBuffer ? 'added'
+      : !rightBuffer ? 'removed'
+      : leftBuffer.equals(rightBuffer) ? 'identical'
+      : 'modified';
+
+    const entry: FileEntry = {
+      leftFile,
+      rightFile,
+      leftContent: leftBuffer ? leftBuffer.toString('utf-8') : '',
+      rightContent: rightBuffer ? rightBuffer.toString('utf-8') : '',
+      label: relPath,
+      status,
+      notes: status === 'added' ? [`only in ${rightDir}`] : status === 'removed' ? [`only in ${leftDir}`] : undefined,
+    };
+
+    if (leftBuffer?.includes(0) || rightBuffer?.includes(0)) {
+      return { ...entry, leftContent: '', rightContent: '', sections: [], notes: [...(entry.notes ?? []), 'binary file'] };
+    }
+    return entry;
+  });
+}
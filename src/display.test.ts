@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { computeDiffSections, sectionHasChanges } from './diff.js';
+import type { DiffSection } from './diff.js';
+import { buildDisplayModel, findRowForLine, sectionAtRow } from './display.js';
+
+const numbered = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i}`);
+
+describe('buildDisplayModel', () => {
+  it('folds long unchanged sections to a placeholder between their context rows', () => {
+    const left = numbered(20);
+    const right = [...left];
+    right[15] = 'changed';
+    const model = buildDisplayModel(computeDiffSections(left.join('\n'), right.join('\n')), true);
+
+    // 15 equal rows fold to 3 + placeholder + 3, then the change and the rest
+    const placeholder = model.rows[3];
+    expect(placeholder.folded).toBe(9);
+    expect(placeholder.leftIndex).toBe(3);
+    expect(model.rows[4].left?.content).toBe('line 12');
+    expect(model.rows[4].leftIndex).toBe(12);
+    expect(model.sectionStarts[1]).toBe(7);
+    expect(model.rows[7].right?.content).toBe('changed');
+  });
+
+  it('keeps every row when folding is off', () => {
+    const sections = computeDiffSections(numbered(20).join('\n'), numbered(20).join('\n'));
+    const model = buildDisplayModel(sections, false);
+    expect(model.rows).toHaveLength(20);
+    expect(model.rows.some(row => row.folded)).toBe(false);
+  });
+
+  it('gives padding rows the index of the next line on their side', () => {
+    const model = buildDisplayModel(computeDiffSections('a\nc', 'a\nb\nc'), true);
+    expect(model.rows.map(row => [row.leftIndex, row.rightIndex])).toEqual([[0, 0], [1, 1], [1, 2]]);
+    expect(model.rows[1].left?.type).toBe('empty');
+  });
+
+  it('splits changed rows for the unified layout without renumbering sections', () => {
+    const sections = computeDiffSections('a\nb\nc', 'a\nB\nc');
+    const model = buildDisplayModel(sections, false, 3, true);
+    expect(model.rows.map(row => [row.left?.content, row.right?.content])).toEqual([
+      ['a', 'a'], ['b', ''], ['', 'B'], ['c', 'c'],
+    ]);
+    expect(model.sectionStarts).toHaveLength(sections.length);
+    expect(model.rows.map(row => [row.leftIndex, row.rightIndex])).toEqual([[0, 0], [1, 1], [2, 1], [2, 2]]);
+  });
+});
+
+describe('findRowForLine', () => {
+  const left = numbered(30);
+  const right = [...left];
+  right.splice(20, 0, 'inserted');
+  const model = buildDisplayModel(computeDiffSections(left.join('\n'), right.join('\n')), true);
+
+  it('finds the row showing a line', () => {
+    const row = findRowForLine(model, 'right', 20);
+    expect(model.rows[row].right?.content).toBe('inserted');
+    expect(model.rows[findRowForLine(model, 'left', 2)].left?.content).toBe('line 2');
+  });
+
+  it('finds the placeholder for a folded line', () => {
+    expect(model.rows[findRowForLine(model, 'left', 10)].folded).toBeDefined();
+  });
+
+  it('prefers the row with the line over the padding before it', () => {
+    const row = findRowForLine(model, 'left', 20);
+    expect(model.rows[row].left?.content).toBe('line 20');
+  });
+
+  it('clamps lines past the end to the last row', () => {
+    expect(findRowForLine(model, 'left', 1000)).toBe(model.rows.length - 1);
+  });
+
+  it('maps rows back to their sections', () => {
+    expect(sectionAtRow(model, findRowForLine(model, 'right', 20))).toBe(1);
+    expect(sectionAtRow(model, 1000)).toBe(model.sectionStarts.length - 1);
+  });
+});
+
+// The lookup the view did before the model: walk the sections from the top on every call
+function walkToLine(sections: DiffSection[], side: 'left' | 'right', target: number, contextLines = 3): number {
+  let lineCount = 0;
+  let lineIndex = 0;
+  for (const section of sections) {
+    const sideLines = side === 'left' ? section.leftLines : section.rightLines;
+    const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+    const shouldFold = !sectionHasChanges(section) && maxLines > (contextLines * 2 + 1);
+    for (let i = 0; i < maxLines; i++) {
+      const line = sideLines[i];
+      if (line && line.type !== 'empty') {
+        if (lineIndex === target) return lineCount;
+        lineIndex++;
+      }
+      lineCount++;
+      if (shouldFold && i === contextLines - 1) {
+        const folded = sideLines.slice(contextLines, maxLines - contextLines).filter(l => l.type !== 'empty').length;
+        if (target < lineIndex + folded) return lineCount;
+        lineIndex += folded;
+        lineCount++;
+        i = maxLines - contextLines - 1;
+      }
+    }
+  }
+  return Math.max(0, lineCount - 1);
+}
+
+describe('display model lookups', () => {
+  it('match walking the sections and read a logarithmic number of rows', () => {
+    // 50k lines with a change every 500, so folding applies between them
+    const left = numbered(50_000);
+    const right = left.map((line, i) => i % 500 === 250 ? `${line} changed` : line);
+    const sections = computeDiffSections(left.join('\n'), right.join('\n'));
+    const model = buildDisplayModel(sections, true);
+
+    let reads = 0;
+    const rows = new Proxy(model.rows, {
+      get(target, key, receiver) {
+        if (typeof key === 'string' && /^\d+$/.test(key)) reads++;
+        return Reflect.get(target, key, receiver);
+      },
+    });
+    const counted = { ...model, rows };
+
+    const bound = 3 * Math.ceil(Math.log2(model.rows.length));
+    for (let i = 0; i < 300; i++) {
+      const target = (i * 7919) % 50_000;
+      reads = 0;
+      expect(findRowForLine(counted, 'right', target)).toBe(walkToLine(sections, 'right', target));
+      expect(reads).toBeLessThanOrEqual(bound);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+// Display model
+// Every row the view can show - a section row or a fold placeholder - with its file line numbers,
+// built once per diff or folding change so that navigation, editing and rendering look rows up
+// instead of walking the sections and repeating the fold arithmetic
+
+import { sectionHasChanges, countRealLines } from './diff.js';
+import type { DiffSection, DiffLine } from './diff.js';
+import { toUnifiedSections } from './layout.js';
+
+export interface DisplayRow {
+  section: number;
+  line: number; // Row within the section (the first hidden row for a fold placeholder)
+  left?: DiffLine; // Undefined past the end of a shorter side
+  right?: DiffLine;
+  // 0-based file line of each side: the line shown, or for padding and placeholders the next line
+  leftIndex: number;
+  rightIndex: number;
+  folded?: number; // Set on fold placeholders: how many section rows they hide
+}
+
+export interface DisplayModel {
+  rows: DisplayRow[];
+  sectionStarts: number[]; // First display row of each section
+}
+
+type Side = 'left' | 'right';
+
+// Sections without changes fold down to their first and last `contextLines` rows
+export function buildDisplayModel(sections: DiffSection[], foldingEnabled: boolean, contextLines = 3, unified = false): DisplayModel {
+  const rows: DisplayRow[] = [];
+  const sectionStarts: number[] = [];
+
+  // The unified layout only rearranges rows within each section, so sections keep their indices
+  (unified ? toUnifiedSections(sections) : sections).forEach((section, sectionIndex) => {
+    sectionStarts.push(rows.length);
+    const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+    const shouldFold = foldingEnabled && !sectionHasChanges(section) && maxLines > (contextLines * 2 + 1);
+    // Sections carry their own start lines (patch hunks are not contiguous)
+    let leftIndex = section.leftStart;
+    let rightIndex = section.rightStart;
+
+    for (let i = 0; i < maxLines; i++) {
+      if (shouldFold && i === contextLines) {
+        const end = maxLines - contextLines;
+        rows.push({ section: sectionIndex, line: i, leftIndex, rightIndex, folded: end - contextLines });
+        leftIndex += countRealLines(section.leftLines, contextLines, end);
+        rightIndex += countRealLines(section.rightLines, contextLines, end);
+        i = end - 1;
+        continue;
+      }
+      const left = section.leftLines[i];
+      const right = section.rightLines[i];
+      rows.push({ section: sectionIndex, line: i, left, right, leftIndex, rightIndex });
+      if (left && left.type !== 'empty') leftIndex++;
+      if (right && right.type !== 'empty') rightIndex++;
+    }
+  });
+
+  return { rows, sectionStarts };
+}
+
+export function isRealLine(line: DiffLine | undefined): boolean {
+  return !!line && line.type !== 'empty';
+}
+
+// Display row showing the given file line of one side, or the placeholder hiding it. Line indices
+// never decrease down the rows, so this is a binary search for the last row at or before `target`.
+export function findRowForLine(model: DisplayModel, side: Side, target: number): number {
+  const key = side === 'left' ? 'leftIndex' : 'rightIndex';
+  let low = 0;
+  let high = model.rows.length - 1;
+  let found = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (model.rows[mid][key] <= target) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  // Padding rows share the index of the line after them; prefer the row that shows the line
+  const lineOf = (row: DisplayRow) => side === 'left' ? row.left : row.right;
+  for (let row = found; row >= 0 && model.rows[row][key] === target; row--) {
+    if (isRealLine(lineOf(model.rows[row])) || model.rows[row].folded) return row;
+  }
+  return found;
+}
+
+// Section containing a display row (the last one for rows past the end)
+export function sectionAtRow(model: DisplayModel, row: number): number {
+  if (model.rows.length === 0) return 0;
+  return model.rows[Math.min(Math.max(0, row), model.rows.length - 1)].section;
+}
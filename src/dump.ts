@@ -1,15 +1,19 @@
 // Dump mode - non-interactive output for testing
 // Uses the same diff algorithm as the interactive TUI
 
-import { computeDiffSections, getPrefixForType } from './diff.js';
-import type { DiffSection } from './diff.js';
+import { computeDiffSections, sectionHasChanges, countRealLines, getPrefixForLine, markSpans } from './diff.js';
+import type { DiffSection, DiffOptions } from './diff.js';
+import { toUnifiedSections, unifiedRowLine, wrapText, UNIFIED_GUTTER_WIDTH } from './layout.js';
 
-interface DumpOptions {
+export interface DumpOptions {
   width: number;
   foldingEnabled: boolean;
   showDebug: boolean;
   scrollOffset: number;
   viewHeight: number;
+  diffOptions?: DiffOptions;
+  layout?: 'split' | 'unified'; // Already resolved against width (defaults to split)
+  wrap?: boolean; // Continue long lines on extra rows instead of truncating
 }
 
 export function dumpDiff(
@@ -19,21 +23,44 @@ export function dumpDiff(
   rightFile: string,
   options: DumpOptions
 ): void {
-  const sections = computeDiffSections(leftContent, rightContent);
+  const sections = computeDiffSections(leftContent, rightContent, options.diffOptions);
+  dumpSections(sections, leftFile, rightFile, options);
+}
+
+// Dump precomputed sections (e.g. parsed from a patch); notes are printed under the header
+export function dumpSections(
+  sections: DiffSection[],
+  leftFile: string,
+  rightFile: string,
+  options: DumpOptions,
+  notes: string[] = []
+): void {
   const contextLines = 3;
 
   console.log(`--- ${leftFile}`);
   console.log(`+++ ${rightFile}`);
+  for (const note of notes) {
+    console.log(`# ${note}`);
+  }
   console.log('');
 
+  if (sections.length === 0) {
+    console.log('(no textual changes)');
+    return;
+  }
+
   let leftLineNum = 1;
   let rightLineNum = 1;
   let globalLineIndex = 0;
+  let rowsPrinted = 0; // Counted against viewHeight; a wrapped line prints several rows
+  const unified = options.layout === 'unified';
 
-  for (const section of sections) {
+  for (const section of unified ? toUnifiedSections(sections) : sections) {
+    // Sections carry their own start lines (patch hunks are not contiguous)
+    leftLineNum = section.leftStart + 1;
+    rightLineNum = section.rightStart + 1;
     const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
-    const hasChanges = section.leftLines.some(l => l.type !== 'equal') ||
-                      section.rightLines.some(l => l.type !== 'equal');
+    const hasChanges = sectionHasChanges(section);
     const shouldFold = options.foldingEnabled && !hasChanges && maxLines > (contextLines * 2 + 1);
     const foldedLinesCount = shouldFold ? maxLines - (contextLines * 2) : 0;
 
@@ -42,9 +69,9 @@ export function dumpDiff(
       if (shouldFold && i === contextLines) {
         console.log(`⋯ ${foldedLinesCount} unchanged lines ⋯`);
         globalLineIndex++;
-        const skipped = foldedLinesCount;
-        leftLineNum += skipped;
-        rightLineNum += skipped;
+        rowsPrinted++;
+        leftLineNum += countRealLines(section.leftLines, contextLines, maxLines - contextLines);
+        rightLineNum += countRealLines(section.rightLines, contextLines, maxLines - contextLines);
         i = maxLines - contextLines - 1;
         continue;
       }
@@ -58,15 +85,15 @@ export function dumpDiff(
         globalLineIndex++;
         continue;
       }
-      if (options.viewHeight > 0 && globalLineIndex >= options.scrollOffset + options.viewHeight) {
+      if (options.viewHeight > 0 && rowsPrinted >= options.viewHeight) {
         return;
       }
 
       const leftLine = section.leftLines[i] || { content: '', type: 'empty' as const };
       const rightLine = section.rightLines[i] || { content: '', type: 'empty' as const };
 
-      const leftPrefix = getPrefixForType(leftLine.type);
-      const rightPrefix = getPrefixForType(rightLine.type);
+      const leftPrefix = getPrefixForLine(leftLine);
+      const rightPrefix = getPrefixForLine(rightLine);
       const leftNum = leftLine.type !== 'empty' ? leftLineNum.toString().padStart(4) : '    ';
       const rightNum = rightLine.type !== 'empty' ? rightLineNum.toString().padStart(4) : '    ';
 
@@ -75,20 +102,37 @@ export function dumpDiff(
 
       const truncate = (s: string, max: number) =>
         s.length > max ? s.substring(0, max - 1) + '…' : s;
+      // One chunk per output row: the truncated text, or every soft-wrapped piece
+      const fit = (s: string, max: number) => options.wrap ? wrapText(s, max) : [truncate(s, max)];
+      // Only the first row of a wrapped line shows the gutter
+      const gutter = (text: string, row: number) => row === 0 ? text : ' '.repeat(text.length);
+      const viewFull = () => options.viewHeight > 0 && rowsPrinted >= options.viewHeight;
+
+      if (unified) {
+        // One column: both line-number gutters, then whichever side the row shows
+        const line = unifiedRowLine(leftLine, rightLine);
+        const chunks = fit(markSpans(line), Math.max(10, options.width - UNIFIED_GUTTER_WIDTH));
+        for (let row = 0; row < chunks.length && !viewFull(); row++) {
+          console.log(`${gutter(`${leftNum} ${rightNum}${getPrefixForLine(line)}`, row)}${chunks[row]}`);
+          rowsPrinted++;
+        }
+        if (leftLine.type !== 'empty') leftLineNum++;
+        if (rightLine.type !== 'empty') rightLineNum++;
+        globalLineIndex++;
+        continue;
+      }
 
-      const leftDisplay = leftLine.type === 'empty' ? '⋯' : truncate(leftLine.content, contentWidth);
-      const rightDisplay = rightLine.type === 'empty' ? '⋯' : truncate(rightLine.content, contentWidth);
+      // Changed spans within paired lines are marked as [-removed-] / {+added+}
+      const leftChunks = leftLine.type === 'empty' ? ['⋯'] : fit(markSpans(leftLine), contentWidth);
+      const rightChunks = rightLine.type === 'empty' ? ['⋯'] : fit(markSpans(rightLine), contentWidth);
 
       const pad = (s: string, w: number) => s.length >= w ? s.substring(0, w) : s + ' '.repeat(w - s.length);
 
-      if (options.showDebug) {
-        console.log(
-          `${pad(`${leftNum}${leftPrefix}${leftDisplay}`, columnWidth)} │ ${pad(`${rightNum}${rightPrefix}${rightDisplay}`, columnWidth)}`
-        );
-      } else {
+      for (let row = 0; row < Math.max(leftChunks.length, rightChunks.length) && !viewFull(); row++) {
         console.log(
-          `${pad(`${leftNum}${leftPrefix}${leftDisplay}`, columnWidth)} │ ${pad(`${rightNum}${rightPrefix}${rightDisplay}`, columnWidth)}`
+          `${pad(`${gutter(`${leftNum}${leftPrefix}`, row)}${leftChunks[row] ?? ''}`, columnWidth)} │ ${pad(`${gutter(`${rightNum}${rightPrefix}`, row)}${rightChunks[row] ?? ''}`, columnWidth)}`
         );
+        rowsPrinted++;
       }
 
       if (leftLine.type !== 'empty') leftLineNum++;
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { openLine, deleteLine, splitLine, joinLines, insertText } from './editing.js';
+
+describe('openLine', () => {
+  it('inserts an empty line before the given line or at the end', () => {
+    expect(openLine('a\nb', 1)).toEqual({ text: 'a\n\nb', line: 1, column: 0 });
+    expect(openLine('a\nb', 2)).toEqual({ text: 'a\nb\n', line: 2, column: 0 });
+  });
+});
+
+describe('deleteLine', () => {
+  it('removes the line and returns it', () => {
+    expect(deleteLine('a\nb\nc', 1)).toEqual({ text: 'a\nc', line: 1, column: 0, removed: 'b' });
+    expect(deleteLine('a\nb', 1)).toEqual({ text: 'a', line: 0, column: 0, removed: 'b' });
+  });
+
+  it('leaves one empty line when the last line is deleted', () => {
+    expect(deleteLine('only', 0)).toEqual({ text: '', line: 0, column: 0, removed: 'only' });
+  });
+});
+
+describe('splitLine and joinLines', () => {
+  it('splits at the cursor and joins back at the same column', () => {
+    const split = splitLine('one\nheadtail\nthree', 1, 4);
+    expect(split).toEqual({ text: 'one\nhead\ntail\nthree', line: 2, column: 0 });
+    expect(joinLines(split.text, 1)).toEqual({ text: 'one\nheadtail\nthree', line: 1, column: 4 });
+  });
+
+  it('does nothing when joining the last line', () => {
+    expect(joinLines('a\nb', 1)).toEqual({ text: 'a\nb', line: 1, column: 1 });
+  });
+});
+
+describe('insertText', () => {
+  it('inserts within a line', () => {
+    expect(insertText('held', 0, 2, 'llo wor')).toEqual({ text: 'hello world', line: 0, column: 9 });
+  });
+
+  it('splits the line around multi-line text', () => {
+    expect(insertText('start end', 0, 6, 'one\ntwo\nthree ')).toEqual({
+      text: 'start one\ntwo\nthree end', line: 2, column: 6,
+    });
+    expect(insertText('x\r\ny', 0, 0, 'a\r\nb')).toEqual({ text: 'a\nbx\r\ny', line: 1, column: 1 });
+  });
+
+  it('inserts killed whole lines above the cursor line', () => {
+    expect(insertText('a\nd', 1, 0, 'b\nc\n')).toEqual({ text: 'a\nb\nc\nd', line: 3, column: 0 });
+  });
+});
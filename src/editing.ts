@@ -0,0 +1,54 @@
+// Line-level editing
+// Pure operations on one side's text; each returns the new text and where the cursor ends up
+
+export interface EditResult {
+  text: string;
+  line: number; // File line holding the cursor afterwards
+  column: number;
+}
+
+// Insert an empty line before `line` (which may be one past the last line)
+export function openLine(text: string, line: number): EditResult {
+  const lines = text.split('\n');
+  lines.splice(line, 0, '');
+  return { text: lines.join('\n'), line, column: 0 };
+}
+
+// Remove `line`; the cursor moves to the line that takes its place
+export function deleteLine(text: string, line: number): EditResult & { removed: string } {
+  const lines = text.split('\n');
+  const [removed] = lines.splice(line, 1);
+  if (lines.length === 0) lines.push('');
+  return { text: lines.join('\n'), line: Math.min(line, lines.length - 1), column: 0, removed: removed ?? '' };
+}
+
+// Break `line` in two at `column`; the cursor starts the second half
+export function splitLine(text: string, line: number, column: number): EditResult {
+  const lines = text.split('\n');
+  const content = lines[line] ?? '';
+  lines.splice(line, 1, content.slice(0, column), content.slice(column));
+  return { text: lines.join('\n'), line: line + 1, column: 0 };
+}
+
+// Append the line after `line` to it; the cursor sits at the join
+export function joinLines(text: string, line: number): EditResult {
+  const lines = text.split('\n');
+  const column = lines[line].length;
+  if (line + 1 < lines.length) {
+    lines.splice(line, 2, lines[line] + lines[line + 1]);
+  }
+  return { text: lines.join('\n'), line, column };
+}
+
+// Insert text at the cursor; line breaks in it (e.g. a yanked line or a paste) split the line
+export function insertText(text: string, line: number, column: number, inserted: string): EditResult {
+  const lines = text.split('\n');
+  const content = lines[line] ?? '';
+  const pieces = inserted.split(/\r\n|\r|\n/);
+  const last = pieces.length - 1;
+  pieces[0] = content.slice(0, column) + pieces[0];
+  const endColumn = pieces[last].length;
+  pieces[last] += content.slice(column);
+  lines.splice(line, 1, ...pieces);
+  return { text: lines.join('\n'), line: line + last, column: endColumn };
+}
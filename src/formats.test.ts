@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { computeDiffSections } from './diff.js';
+import { getFoldRange, toJsonFile, formatJson, formatHtml } from './formats.js';
+
+const left = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'old'].join('\n');
+const right = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'new', 'extra'].join('\n');
+const file = { leftFile: 'l.txt', rightFile: 'r.txt', sections: computeDiffSections(left, right) };
+
+describe('getFoldRange', () => {
+  it('folds long unchanged sections like the TUI', () => {
+    expect(getFoldRange(file.sections[0])).toEqual({ start: 3, end: 5 });
+    expect(getFoldRange(file.sections[1])).toBeNull();
+  });
+});
+
+describe('toJsonFile', () => {
+  it('numbers lines per side and leaves padding rows empty', () => {
+    const json = toJsonFile(file);
+    expect(json.sections[0]).toMatchObject({ changed: false, fold: { start: 3, end: 5 } });
+    expect(json.sections[1].rows).toEqual([
+      { left: { number: 9, type: 'remove', content: 'old' }, right: { number: 9, type: 'add', content: 'new' } },
+      { left: null, right: { number: 10, type: 'add', content: 'extra' } },
+    ]);
+  });
+
+  it('round-trips through formatJson', () => {
+    expect(JSON.parse(formatJson([file])).files[0].right).toBe('r.txt');
+  });
+});
+
+describe('formatHtml', () => {
+  it('escapes text and puts folded rows behind a toggle', () => {
+    const html = formatHtml([{ ...file, leftFile: '<l>' }]);
+    expect(html).toContain('&lt;l&gt; → r.txt');
+    expect(html).toContain('<details><summary>⋯ 2 unchanged lines ⋯</summary>');
+    expect(html).not.toContain('<script');
+  });
+});
@@ -0,0 +1,176 @@
+// Dump formats
+// JSON and HTML renderings of computed sections for scripts and reviews; the side-by-side text
+// layout lives in dump.ts and unified patches come from formatSectionsPatch
+
+import { sectionHasChanges, segmentLine } from './diff.js';
+import type { DiffSection, DiffLine, InlineSpan } from './diff.js';
+
+export type DumpFormat = 'side-by-side' | 'unified' | 'json' | 'html';
+
+export const DUMP_FORMATS: DumpFormat[] = ['side-by-side', 'unified', 'json', 'html'];
+
+// One file pair to render
+export interface DumpFile {
+  leftFile: string;
+  rightFile: string;
+  sections: DiffSection[];
+  notes?: string[];
+}
+
+// Rows [start, end) that the TUI folds away in an unchanged section, or null when it shows all rows
+export function getFoldRange(section: DiffSection, contextLines = 3): { start: number; end: number } | null {
+  const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+  if (sectionHasChanges(section) || maxLines <= contextLines * 2 + 1) return null;
+  return { start: contextLines, end: maxLines - contextLines };
+}
+
+export interface JsonLine {
+  number: number; // 1-based line in the file
+  type: DiffLine['type'];
+  content: string;
+  spans?: InlineSpan[];
+  suppressed?: boolean;
+  moveId?: number;
+}
+
+// An aligned row; null marks the padding opposite an added or removed line
+export interface JsonRow {
+  left: JsonLine | null;
+  right: JsonLine | null;
+}
+
+export interface JsonSection {
+  changed: boolean;
+  fold?: { start: number; end: number }; // Rows the TUI hides behind a placeholder
+  rows: JsonRow[];
+}
+
+export interface JsonFile {
+  left: string;
+  right: string;
+  notes: string[];
+  sections: JsonSection[];
+}
+
+// Pair each section's rows with their line numbers (empty padding lines have none)
+function numberRows(section: DiffSection): { left?: DiffLine; right?: DiffLine; leftNum: number; rightNum: number }[] {
+  const rows = [];
+  let leftNum = section.leftStart + 1;
+  let rightNum = section.rightStart + 1;
+  const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+  for (let i = 0; i < maxLines; i++) {
+    const left = section.leftLines[i]?.type === 'empty' ? undefined : section.leftLines[i];
+    const right = section.rightLines[i]?.type === 'empty' ? undefined : section.rightLines[i];
+    rows.push({ left, right, leftNum, rightNum });
+    if (left) leftNum++;
+    if (right) rightNum++;
+  }
+  return rows;
+}
+
+function toJsonLine(line: DiffLine | undefined, number: number): JsonLine | null {
+  if (!line) return null;
+  const json: JsonLine = { number, type: line.type, content: line.content };
+  if (line.spans && line.spans.length > 0) json.spans = line.spans;
+  if (line.suppressed) json.suppressed = true;
+  if (line.moveId !== undefined) json.moveId = line.moveId;
+  return json;
+}
+
+export function toJsonFile(file: DumpFile): JsonFile {
+  return {
+    left: file.leftFile,
+    right: file.rightFile,
+    notes: file.notes ?? [],
+    sections: file.sections.map(section => {
+      const fold = getFoldRange(section);
+      return {
+        changed: sectionHasChanges(section),
+        ...(fold ? { fold } : {}),
+        rows: numberRows(section).map(row => ({
+          left: toJsonLine(row.left, row.leftNum),
+          right: toJsonLine(row.right, row.rightNum),
+        })),
+      };
+    }),
+  };
+}
+
+export function formatJson(files: DumpFile[]): string {
+  return JSON.stringify({ files: files.map(toJsonFile) }, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Colors follow the TUI: red removals, green additions, magenta moves, blue suppressed differences
+const HTML_STYLE = `
+body { background: #1e1e1e; color: #d4d4d4; font: 13px/1.4 ui-monospace, Menlo, Consolas, monospace; margin: 1em; }
+h2 { font-size: 14px; margin: 1.5em 0 0.3em; }
+.note { color: #999; margin: 0.2em 0; }
+.diff { border: 1px solid #444; }
+.row { display: grid; grid-template-columns: 4em 1fr 4em 1fr; }
+.num { color: #777; text-align: right; padding-right: 0.6em; user-select: none; }
+.line { white-space: pre-wrap; word-break: break-all; padding-left: 0.3em; }
+.remove { background: #4a1a1a; }
+.add { background: #143d1e; }
+.moved { background: #3a1a44; }
+.suppressed { color: #6fa8dc; }
+.empty { background: repeating-linear-gradient(45deg, #222, #222 4px, #262626 4px, #262626 8px); }
+.remove mark { background: #8b2b2b; color: inherit; }
+.add mark { background: #2b6b36; color: inherit; }
+details > summary { color: #888; cursor: pointer; text-align: center; list-style: none; }
+details[open] > summary { border-bottom: 1px dashed #444; }
+`;
+
+function htmlLine(line: DiffLine | undefined, number: number): string {
+  if (!line) return '<span class="num"></span><span class="line empty"></span>';
+  const classes = ['line', line.type, ...(line.suppressed ? ['suppressed'] : [])].join(' ');
+  const text = segmentLine(line.content, line.spans)
+    .map(segment => segment.changed ? `<mark>${escapeHtml(segment.text)}</mark>` : escapeHtml(segment.text))
+    .join('');
+  return `<span class="num">${number}</span><span class="${classes}">${text}</span>`;
+}
+
+function htmlSection(section: DiffSection): string[] {
+  const rows = numberRows(section).map(row =>
+    `<div class="row">${htmlLine(row.left, row.leftNum)}${htmlLine(row.right, row.rightNum)}</div>`
+  );
+  const fold = getFoldRange(section);
+  if (!fold) return rows;
+  // Folded rows stay in the page behind a toggle
+  return [
+    ...rows.slice(0, fold.start),
+    `<details><summary>⋯ ${fold.end - fold.start} unchanged lines ⋯</summary>`,
+    ...rows.slice(fold.start, fold.end),
+    '</details>',
+    ...rows.slice(fold.end),
+  ];
+}
+
+// A self-contained page (inline styles, no scripts) with every file's side-by-side diff
+export function formatHtml(files: DumpFile[]): string {
+  const body = files.flatMap(file => [
+    '<section>',
+    `<h2>${escapeHtml(file.leftFile)} → ${escapeHtml(file.rightFile)}</h2>`,
+    ...(file.notes ?? []).map(note => `<p class="note">${escapeHtml(note)}</p>`),
+    file.sections.length === 0
+      ? '<p class="note">(no textual changes)</p>'
+      : ['<div class="diff">', ...file.sections.flatMap(htmlSection), '</div>'].join('\n'),
+    '</section>',
+  ]);
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>diffuse</title>',
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n') + '\n';
+}
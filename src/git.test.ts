@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseNameStatus, normalizeRevs, loadGitFiles } from './git.js';
+
+describe('parseNameStatus', () => {
+  it('reads one path for added, modified, deleted and unmerged files', () => {
+    expect(parseNameStatus('A\0new.ts\0M\0src/a.ts\0D\0gone.ts\0U\0conflict.ts\0')).toEqual([
+      { status: 'A', oldPath: 'new.ts', newPath: 'new.ts' },
+      { status: 'M', oldPath: 'src/a.ts', newPath: 'src/a.ts' },
+      { status: 'D', oldPath: 'gone.ts', newPath: 'gone.ts' },
+      { status: 'U', oldPath: 'conflict.ts', newPath: 'conflict.ts' },
+    ]);
+  });
+
+  it('reads two paths for renames and copies, dropping the score', () => {
+    expect(parseNameStatus('R093\0old name.ts\0new name.ts\0C100\0a.ts\0b.ts\0M\0c.ts\0')).toEqual([
+      { status: 'R', oldPath: 'old name.ts', newPath: 'new name.ts' },
+      { status: 'C', oldPath: 'a.ts', newPath: 'b.ts' },
+      { status: 'M', oldPath: 'c.ts', newPath: 'c.ts' },
+    ]);
+  });
+
+  it('returns nothing for empty output', () => {
+    expect(parseNameStatus('')).toEqual([]);
+  });
+});
+
+describe('normalizeRevs', () => {
+  it('splits a two-dot range into two revisions', () => {
+    expect(normalizeRevs(['main..feature'])).toEqual(['main', 'feature']);
+  });
+
+  it('fills an open end of a range with HEAD', () => {
+    expect(normalizeRevs(['main..'])).toEqual(['main', 'HEAD']);
+    expect(normalizeRevs(['..feature'])).toEqual(['HEAD', 'feature']);
+  });
+
+  it('leaves single revisions, pairs and three-dot ranges alone', () => {
+    expect(normalizeRevs([])).toEqual([]);
+    expect(normalizeRevs(['HEAD~2'])).toEqual(['HEAD~2']);
+    expect(normalizeRevs(['a', 'b'])).toEqual(['a', 'b']);
+    expect(normalizeRevs(['main...feature'])).toEqual(['main...feature']);
+  });
+});
+
+describe('loadGitFiles', () => {
+  let repo: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+
+  beforeAll(() => {
+    repo = mkdtempSync(join(tmpdir(), 'diffuse-git-'));
+    git('init', '-q', '-b', 'main');
+    writeFileSync(join(repo, 'file.txt'), 'base\n');
+    git('add', '.');
+    git('commit', '-qm', 'base');
+    git('checkout', '-qb', 'other');
+    writeFileSync(join(repo, 'file.txt'), 'theirs\n');
+    git('commit', '-qam', 'theirs');
+    git('checkout', '-q', 'main');
+    writeFileSync(join(repo, 'file.txt'), 'ours\n');
+    git('commit', '-qam', 'ours');
+    // Stops with a conflict
+    expect(() => git('merge', '-q', 'other')).toThrow();
+  });
+
+  afterAll(() => rmSync(repo, { recursive: true, force: true }));
+
+  it('lists an unmerged file once, against our side of the merge', () => {
+    const files = loadGitFiles([], [], repo);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ leftFile: 'ours:file.txt', rightFile: 'file.txt', leftContent: 'ours\n' });
+    expect(files[0].rightContent).toContain('>>>>>>> other');
+  });
+});
+
+describe('loadGitFiles between revisions', () => {
+  let repo: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+
+  beforeAll(() => {
+    repo = mkdtempSync(join(tmpdir(), 'diffuse-git-'));
+    git('init', '-q', '-b', 'main');
+    writeFileSync(join(repo, 'gone.txt'), 'gone\n');
+    writeFileSync(join(repo, 'kept.txt'), 'old\n');
+    git('add', '.');
+    git('commit', '-qm', 'first');
+    git('rm', '-q', 'gone.txt');
+    writeFileSync(join(repo, 'kept.txt'), 'new\n');
+    writeFileSync(join(repo, 'new.txt'), 'new\n');
+    git('add', '.');
+    git('commit', '-qm', 'second');
+  });
+
+  afterAll(() => rmSync(repo, { recursive: true, force: true }));
+
+  it('marks added and deleted files', () => {
+    const files = loadGitFiles(['HEAD~', 'HEAD'], [], repo);
+    expect(files.map(({ rightFile, status }) => ({ rightFile, status }))).toEqual([
+      { rightFile: 'HEAD:gone.txt', status: 'removed' },
+      { rightFile: 'HEAD:kept.txt', status: 'modified' },
+      { rightFile: 'HEAD:new.txt', status: 'added' },
+    ]);
+  });
+});
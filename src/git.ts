@@ -0,0 +1,125 @@
+// Git comparison mode
+// Lists changed files with the local git binary and loads old/new blobs for each
+
+import { execFileSync } from 'child_process';
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import type { FileEntry, FileStatus } from './FilesApp.js';
+
+export interface ChangedFile {
+  status: string; // First letter of git's name-status (A, M, D, R, C, T, U)
+  oldPath: string;
+  newPath: string;
+}
+
+function runGit(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 256 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    const stderr = error instanceof Error && 'stderr' in error && error.stderr ? String(error.stderr).trim() : '';
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`git ${args[0]} failed: ${stderr || message}`);
+  }
+}
+
+// Parse `git diff --name-status -z` output (renames and copies carry two paths)
+export function parseNameStatus(output: string): ChangedFile[] {
+  const tokens = output.split('\0').filter(t => t !== '');
+  const changed: ChangedFile[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const status = tokens[i][0];
+    if (status === 'R' || status === 'C') {
+      changed.push({ status, oldPath: tokens[i + 1], newPath: tokens[i + 2] });
+      i += 2;
+    } else {
+      changed.push({ status, oldPath: tokens[i + 1], newPath: tokens[i + 1] });
+      i += 1;
+    }
+  }
+  return changed;
+}
+
+// Accept `rev1..rev2` as shorthand for two revisions, like git diff does
+export function normalizeRevs(revs: string[]): string[] {
+  if (revs.length === 1 && revs[0].includes('..') && !revs[0].includes('...')) {
+    const [from, to] = revs[0].split('..');
+    return [from || 'HEAD', to || 'HEAD'];
+  }
+  return revs;
+}
+
+// Our side of an unmerged path is missing when we deleted the file
+function showUnmerged(spec: string, root: string): string {
+  try {
+    return runGit(['show', spec], root);
+  } catch {
+    return '';
+  }
+}
+
+const isBinary = (content: string) => content.includes('\0');
+
+// Load every changed file as a FileEntry.
+// No revs: index vs working tree. One rev: rev vs working tree. Two revs: rev vs rev2.
+export function loadGitFiles(revisions: string[], paths: string[], cwd = process.cwd()): FileEntry[] {
+  const revs = normalizeRevs(revisions);
+  if (revs.length > 2) {
+    throw new Error('At most two revisions can be compared');
+  }
+
+  const root = runGit(['rev-parse', '--show-toplevel'], cwd).trim();
+  // Pathspecs are relative to where diffuse was started; git reports paths relative to the root
+  const output = runGit(['diff', '--name-status', '-z', '-M', '--no-color', '--no-ext-diff', ...revs, '--', ...paths], cwd);
+  const [leftRev, rightRev] = revs;
+  const changes = parseNameStatus(output);
+  // During a merge git lists an unmerged path twice, as U and then as M
+  const unmerged = new Set(changes.filter(change => change.status === 'U').map(change => change.newPath));
+
+  return changes.filter(change => change.status === 'U' || !unmerged.has(change.newPath)).map(change => {
+    // An unmerged path has no index entry of its own; compare with our side of the merge (stage 2)
+    const ours = leftRev === undefined && change.status === 'U';
+    const leftSpec = leftRev === undefined ? `:${ours ? '2:' : ''}${change.oldPath}` : `${leftRev}:${change.oldPath}`;
+    const leftFile = ours ? `ours:${change.oldPath}` : leftRev === undefined ? `index:${change.oldPath}` : leftSpec;
+    const leftContent = change.status === 'A' ? '' : ours ? showUnmerged(leftSpec, root) : runGit(['show', leftSpec], root);
+
+    let rightFile: string;
+    let rightContent: string;
+    let savePath: string | undefined;
+    let saveDisabled: string | undefined;
+
+    if (rightRev === undefined) {
+      // Working tree - the only side that can be saved
+      const workingPath = join(root, change.newPath);
+      rightFile = change.newPath;
+      rightContent = change.status !== 'D' && existsSync(workingPath) ? readFileSync(workingPath, 'utf-8') : '';
+      savePath = workingPath;
+    } else {
+      const rightSpec = `${rightRev}:${change.newPath}`;
+      rightFile = rightSpec;
+      rightContent = change.status === 'D' ? '' : runGit(['show', rightSpec], root);
+      saveDisabled = `right side is revision ${rightRev}`;
+    }
+
+    const status: FileStatus = change.status === 'A' ? 'added' : change.status === 'D' ? 'removed' : 'modified';
+    const notes: string[] = [];
+    if (change.status === 'A') notes.push('new file');
+    if (change.status === 'D') notes.push('deleted file');
+    if (change.status === 'R') notes.push(`renamed ${change.oldPath} → ${change.newPath}`);
+    if (change.status === 'C') notes.push(`copied ${change.oldPath} → ${change.newPath}`);
+    if (change.status === 'U') notes.push(ours ? 'unmerged - left side is our version' : 'unmerged');
+
+    if (isBinary(leftContent) || isBinary(rightContent)) {
+      return { leftFile, rightFile, leftContent: '', rightContent: '', sections: [], notes: [...notes, 'binary file'], status };
+    }
+
+    const leftSaveDisabled = ours ? 'left side is our version of an unmerged file'
+      : leftRev === undefined ? 'left side is the index'
+      : `left side is revision ${leftRev}`;
+    return { leftFile, rightFile, leftContent, rightContent, notes, status, savePath, saveDisabled, leftSaveDisabled };
+  });
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  EMPTY_HISTORY, diffText, applyChange, revertChange, recordEdit, undoEdit, redoEdit,
+  historyPath, recordSide, restoreSide, loadHistory, saveHistory,
+} from './history.js';
+import type { EditHistory } from './history.js';
+
+// Record each successive text as an edit, extending the first step with the rest
+function typeInto(texts: string[], history: EditHistory = EMPTY_HISTORY): EditHistory {
+  for (let i = 1; i < texts.length; i++) {
+    history = recordEdit(history, texts[i - 1], texts[i], i > 1);
+  }
+  return history;
+}
+
+describe('diffText', () => {
+  it('keeps only the lines between the common start and end', () => {
+    expect(diffText('a\nb\nc\nd', 'a\nB\nC\nd')).toEqual({ start: 1, removed: ['b', 'c'], added: ['B', 'C'] });
+    expect(diffText('a\na', 'a\na\na')).toEqual({ start: 2, removed: [], added: ['a'] });
+  });
+
+  it('applies and reverts', () => {
+    const change = diffText('one\ntwo\nthree', 'one\n2\n2b\nthree');
+    expect(applyChange('one\ntwo\nthree', change)).toBe('one\n2\n2b\nthree');
+    expect(revertChange('one\n2\n2b\nthree', change)).toBe('one\ntwo\nthree');
+  });
+});
+
+describe('recordEdit', () => {
+  it('folds keystrokes on one line into a single change', () => {
+    const history = typeInto(['x\nh\ny', 'x\nhe\ny', 'x\nhel\ny', 'x\nhell\ny']);
+    expect(history.undo).toEqual([[{ start: 1, removed: ['h'], added: ['hell'] }]]);
+  });
+
+  it('folds a split line and typing on the new line into one change', () => {
+    const history = typeInto(['ab\nz', 'a\nb\nz', 'a\ncb\nz']);
+    expect(history.undo).toEqual([[{ start: 0, removed: ['ab'], added: ['a', 'cb'] }]]);
+  });
+
+  it('keeps separate lines as separate changes of one step', () => {
+    const history = typeInto(['a\nb\nc\nd', 'A\nb\nc\nd', 'A\nb\nc\nD']);
+    expect(history.undo).toHaveLength(1);
+    expect(history.undo[0]).toHaveLength(2);
+  });
+
+  it('starts a new step unless extending and clears redo', () => {
+    let history = recordEdit(EMPTY_HISTORY, 'a', 'b', true);
+    history = recordEdit(history, 'b', 'c', false);
+    expect(history.undo).toHaveLength(2);
+
+    const undone = undoEdit(history, 'c')!;
+    expect(undone.history.redo).toHaveLength(1);
+    expect(recordEdit(undone.history, 'b', 'x', false).redo).toEqual([]);
+  });
+});
+
+describe('undoEdit and redoEdit', () => {
+  it('walks a whole step back and forward', () => {
+    const texts = ['a\nb\nc\nd', 'A\nb\nc\nd', 'A\nb\nc\nD', 'A\nb\nc\nD\nE'];
+    const history = typeInto(texts);
+
+    const undone = undoEdit(history, texts[3])!;
+    expect(undone.text).toBe(texts[0]);
+    expect(undone.line).toBe(0);
+    expect(undoEdit(undone.history, undone.text)).toBeNull();
+
+    const redone = redoEdit(undone.history, undone.text)!;
+    expect(redone.text).toBe(texts[3]);
+    expect(redoEdit(redone.history, redone.text)).toBeNull();
+  });
+});
+
+describe('persisted history', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'diffuse-history-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('keys the file by the resolved pair of paths', () => {
+    const env = { XDG_STATE_HOME: dir };
+    expect(historyPath('a.txt', 'b.txt', env)).toBe(historyPath(join(process.cwd(), 'a.txt'), 'b.txt', env));
+    expect(historyPath('a.txt', 'b.txt', env)).not.toBe(historyPath('b.txt', 'a.txt', env));
+    expect(historyPath('a.txt', 'b.txt', env).startsWith(join(dir, 'diffuse', 'history'))).toBe(true);
+  });
+
+  it('restores unsaved edits while the file on disk is unchanged', () => {
+    const history = typeInto(['one\ntwo', 'one\ntwo!']);
+    const path = join(dir, 'nested', 'pair.json');
+    saveHistory(path, { right: recordSide('one\ntwo', 'one\ntwo!', history) });
+
+    const record = loadHistory(path)!;
+    expect(restoreSide(record.right, 'one\ntwo')).toEqual({ text: 'one\ntwo!', history });
+    expect(restoreSide(record.right, 'changed on disk')).toBeNull();
+    expect(restoreSide(record.left, 'one\ntwo')).toBeNull();
+  });
+
+  it('treats a missing file as no history', () => {
+    expect(loadHistory(join(dir, 'missing.json'))).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+// Edit history
+// Undo/redo stacks of line-range changes (not text snapshots), grouped per insert session or
+// hunk operation, optionally saved per file pair so unsaved edits survive an accidental quit
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+
+// Lines [start, start + removed.length) were replaced by `added`
+export interface TextChange {
+  start: number;
+  removed: string[];
+  added: string[];
+}
+
+// One undo step: changes applied in order
+export type EditGroup = TextChange[];
+
+export interface EditHistory {
+  undo: EditGroup[];
+  redo: EditGroup[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] };
+
+// The lines that differ between two texts, after trimming the common first and last lines
+export function diffText(before: string, after: string): TextChange {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  return { start, removed: a.slice(start, a.length - end), added: b.slice(start, b.length - end) };
+}
+
+export function applyChange(text: string, change: TextChange): string {
+  const lines = text.split('\n');
+  lines.splice(change.start, change.removed.length, ...change.added);
+  return lines.join('\n');
+}
+
+export function revertChange(text: string, change: TextChange): string {
+  const lines = text.split('\n');
+  lines.splice(change.start, change.added.length, ...change.removed);
+  return lines.join('\n');
+}
+
+// One change equivalent to `first` followed by `second`, when one's range contains the other's
+// (e.g. consecutive keystrokes on a line); null when they touch different lines
+function combineChanges(first: TextChange, second: TextChange): TextChange | null {
+  // `second` rewrites a range that covers everything `first` added
+  const outer = first.start - second.start;
+  if (outer >= 0 && outer + first.added.length <= second.removed.length) {
+    const removed = [...second.removed.slice(0, outer), ...first.removed, ...second.removed.slice(outer + first.added.length)];
+    return { start: second.start, removed, added: second.added };
+  }
+  // `second` rewrites lines inside what `first` added
+  const inner = second.start - first.start;
+  if (inner >= 0 && inner + second.removed.length <= first.added.length) {
+    const added = [...first.added.slice(0, inner), ...second.added, ...first.added.slice(inner + second.removed.length)];
+    return { start: first.start, removed: first.removed, added };
+  }
+  return null;
+}
+
+// Record the edit from `before` to `after`; `extend` adds it to the last undo step instead of
+// starting a new one. Any new edit clears the redo stack.
+export function recordEdit(history: EditHistory, before: string, after: string, extend: boolean): EditHistory {
+  if (before === after) return history;
+  const change = diffText(before, after);
+  const last = history.undo[history.undo.length - 1];
+  if (!extend || !last) {
+    return { undo: [...history.undo, [change]], redo: [] };
+  }
+  const combined = combineChanges(last[last.length - 1], change);
+  const group = combined ? [...last.slice(0, -1), combined] : [...last, change];
+  return { undo: [...history.undo.slice(0, -1), group], redo: [] };
+}
+
+export interface HistoryStep {
+  history: EditHistory;
+  text: string;
+  line: number; // First line the step touched, for placing the cursor
+}
+
+// Revert the last undo step, moving it to the redo stack
+export function undoEdit(history: EditHistory, text: string): HistoryStep | null {
+  const group = history.undo[history.undo.length - 1];
+  if (!group) return null;
+  const reverted = [...group].reverse().reduce(revertChange, text);
+  return {
+    history: { undo: history.undo.slice(0, -1), redo: [...history.redo, group] },
+    text: reverted,
+    line: Math.min(...group.map(change => change.start)),
+  };
+}
+
+// Re-apply the last undone step
+export function redoEdit(history: EditHistory, text: string): HistoryStep | null {
+  const group = history.redo[history.redo.length - 1];
+  if (!group) return null;
+  return {
+    history: { undo: [...history.undo, group], redo: history.redo.slice(0, -1) },
+    text: group.reduce(applyChange, text),
+    line: Math.min(...group.map(change => change.start)),
+  };
+}
+
+// Persisted history of one side: `pending` turns the file on disk (identified by `hash`)
+// into the unsaved edited text the stacks belong to
+export interface SideRecord {
+  hash: string;
+  pending: TextChange;
+  undo: EditGroup[];
+  redo: EditGroup[];
+}
+
+export interface HistoryRecord {
+  left?: SideRecord;
+  right?: SideRecord;
+}
+
+export function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+// Where the history of a file pair is kept ($XDG_STATE_HOME/diffuse/history, one file per pair)
+export function historyPath(leftFile: string, rightFile: string, env: NodeJS.ProcessEnv = process.env): string {
+  const stateHome = env.XDG_STATE_HOME || join(homedir(), '.local', 'state');
+  const key = hashText(`${resolve(leftFile)}\0${resolve(rightFile)}`);
+  return join(stateHome, 'diffuse', 'history', `${key}.json`);
+}
+
+export function recordSide(saved: string, edited: string, history: EditHistory): SideRecord {
+  return { hash: hashText(saved), pending: diffText(saved, edited), undo: history.undo, redo: history.redo };
+}
+
+// Edited text and history recovered for a side, if the file on disk is still what they were based on
+export function restoreSide(record: SideRecord | undefined, disk: string): { text: string; history: EditHistory } | null {
+  if (!record || record.hash !== hashText(disk)) return null;
+  return { text: applyChange(disk, record.pending), history: { undo: record.undo, redo: record.redo } };
+}
+
+// A missing or unreadable history file is treated as no history
+export function loadHistory(path: string): HistoryRecord | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as HistoryRecord;
+  } catch {
+    return null;
+  }
+}
+
+export function saveHistory(path: string, record: HistoryRecord): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(record));
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { isStreamPath, inputLabel, readInput } from './input.js';
+
+describe('input paths', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'diffuse-input-'));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('treats stdin and devices as streams, files and missing paths not', () => {
+    const file = join(dir, 'file.txt');
+    writeFileSync(file, 'text');
+    expect(isStreamPath('-')).toBe(true);
+    expect(isStreamPath('/dev/null')).toBe(true);
+    expect(isStreamPath(file)).toBe(false);
+    expect(isStreamPath(join(dir, 'missing.txt'))).toBe(false);
+    expect(readInput(file)).toBe('text');
+  });
+
+  it('labels stdin', () => {
+    expect(inputLabel('-')).toBe('stdin');
+    expect(inputLabel('a.txt')).toBe('a.txt');
+  });
+});
@@ -0,0 +1,34 @@
+// Input sources
+// File arguments read from stdin ("-") or a pipe (e.g. <(cmd)), and the keyboard when stdin is taken
+
+import { readFileSync, statSync, openSync } from 'fs';
+import { ReadStream } from 'tty';
+
+export const STDIN_PATH = '-';
+
+export function readInput(path: string): string {
+  return readFileSync(path === STDIN_PATH ? 0 : path, 'utf-8');
+}
+
+// Stdin and inputs such as pipes or devices that saving can't write back to
+export function isStreamPath(path: string): boolean {
+  if (path === STDIN_PATH) return true;
+  try {
+    const stat = statSync(path);
+    return !stat.isFile() && !stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Name shown for an input, where "-" would say little
+export function inputLabel(path: string): string {
+  return path === STDIN_PATH ? 'stdin' : path;
+}
+
+// Where Ink reads keys from: stdin itself when it is a terminal, else the controlling terminal
+// (stdin carries piped data). Throws when there is no terminal to open.
+export function openKeyboard(): NodeJS.ReadStream {
+  if (process.stdin.isTTY) return process.stdin;
+  return new ReadStream(openSync('/dev/tty', 'r')) as unknown as NodeJS.ReadStream;
+}
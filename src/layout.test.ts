@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { computeDiffSections } from './diff.js';
+import { DEFAULT_LAYOUT, resolveLayout, toUnifiedSections, unifiedRowLine, countWrappedRows, wrapText } from './layout.js';
+
+describe('resolveLayout', () => {
+  it('keeps explicit layouts and resolves auto by width', () => {
+    expect(resolveLayout('split', 40)).toBe('split');
+    expect(resolveLayout('unified', 200)).toBe('unified');
+    expect(resolveLayout('auto', 80)).toBe('unified');
+    expect(resolveLayout('auto', 160)).toBe('split');
+  });
+
+  it('defaults to side by side at any width', () => {
+    expect(resolveLayout(DEFAULT_LAYOUT, 80)).toBe('split');
+    expect(resolveLayout(DEFAULT_LAYOUT, 40)).toBe('split');
+  });
+});
+
+describe('toUnifiedSections', () => {
+  it('lists removed lines before added lines with one side per row', () => {
+    const sections = toUnifiedSections(computeDiffSections('a\nb\nc\nd', 'a\nB\nC\nd'));
+    const rows = sections.flatMap(section =>
+      section.leftLines.map((left, i) => unifiedRowLine(left, section.rightLines[i])));
+
+    expect(rows.map(line => `${line.type}:${line.content}`)).toEqual([
+      'equal:a', 'remove:b', 'remove:c', 'add:B', 'add:C', 'equal:d',
+    ]);
+    for (const section of sections) {
+      section.leftLines.forEach((left, i) => {
+        const right = section.rightLines[i];
+        expect(left.type === 'equal' || left.type === 'empty' || right.type === 'empty').toBe(true);
+      });
+    }
+  });
+
+  it('keeps section boundaries and per-side line counts', () => {
+    const split = computeDiffSections('1\n2\n3\nx\n4', '1\n2\n3\ny\nz\n4');
+    const unified = toUnifiedSections(split);
+
+    expect(unified).toHaveLength(split.length);
+    unified.forEach((section, i) => {
+      expect(section.leftStart).toBe(split[i].leftStart);
+      expect(section.rightStart).toBe(split[i].rightStart);
+      const real = (lines: typeof section.leftLines) => lines.filter(l => l.type !== 'empty').length;
+      expect(real(section.leftLines)).toBe(real(split[i].leftLines));
+      expect(real(section.rightLines)).toBe(real(split[i].rightLines));
+    });
+  });
+
+  it('splits masked rows so both versions are visible', () => {
+    const sections = toUnifiedSections(computeDiffSections('id=1', 'id=2', { masks: [/\d/] }));
+
+    expect(sections[0].leftLines.map(l => l.content)).toEqual(['id=1', '']);
+    expect(sections[0].rightLines.map(l => l.content)).toEqual(['', 'id=2']);
+  });
+});
+
+describe('soft wrap helpers', () => {
+  it('counts at least one row per line', () => {
+    expect(countWrappedRows('', 10)).toBe(1);
+    expect(countWrappedRows('x'.repeat(10), 10)).toBe(1);
+    expect(countWrappedRows('x'.repeat(11), 10)).toBe(2);
+  });
+
+  it('splits text into width-sized chunks', () => {
+    expect(wrapText('abcdefg', 3)).toEqual(['abc', 'def', 'g']);
+    expect(wrapText('', 3)).toEqual(['']);
+  });
+});
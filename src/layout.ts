@@ -0,0 +1,86 @@
+// View layouts
+// Side-by-side columns or a single unified column with removals listed before additions
+
+import type { DiffSection, DiffLine } from './diff.js';
+
+export type DiffLayout = 'split' | 'unified' | 'auto';
+
+export const DIFF_LAYOUTS: DiffLayout[] = ['split', 'unified', 'auto'];
+
+// Side by side unless asked otherwise; 'auto' is opt-in
+export const DEFAULT_LAYOUT: DiffLayout = 'split';
+
+// Below this many columns each side-by-side pane is too narrow to read
+const AUTO_SPLIT_MIN_WIDTH = 100;
+
+// Unified rows show both line numbers, e.g. "  12   14 - text"
+export const UNIFIED_GUTTER_WIDTH = 11;
+
+const EMPTY_LINE: DiffLine = { content: '', type: 'empty' };
+
+// Resolve 'auto' against the available width
+export function resolveLayout(layout: DiffLayout, width: number): 'split' | 'unified' {
+  if (layout !== 'auto') return layout;
+  return width < AUTO_SPLIT_MIN_WIDTH ? 'unified' : 'split';
+}
+
+// Rows that read the same on both sides stay shared; any other row is split into a left-only
+// and a right-only row, with each run of left-only rows placed before its right-only rows.
+// Sections keep their boundaries and start lines, so folding, navigation and editing
+// (which count non-empty lines per side) work on the result unchanged.
+export function toUnifiedSections(sections: DiffSection[]): DiffSection[] {
+  return sections.map(section => {
+    const leftLines: DiffLine[] = [];
+    const rightLines: DiffLine[] = [];
+    let pendingLeft: DiffLine[] = [];
+    let pendingRight: DiffLine[] = [];
+    const flush = () => {
+      for (const line of pendingLeft) {
+        leftLines.push(line);
+        rightLines.push(EMPTY_LINE);
+      }
+      for (const line of pendingRight) {
+        leftLines.push(EMPTY_LINE);
+        rightLines.push(line);
+      }
+      pendingLeft = [];
+      pendingRight = [];
+    };
+
+    const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+    for (let i = 0; i < maxLines; i++) {
+      const left = section.leftLines[i] ?? EMPTY_LINE;
+      const right = section.rightLines[i] ?? EMPTY_LINE;
+      if (left.type === 'equal' && right.type === 'equal' && !left.suppressed && !right.suppressed) {
+        flush();
+        leftLines.push(left);
+        rightLines.push(right);
+      } else {
+        if (left.type !== 'empty') pendingLeft.push(left);
+        if (right.type !== 'empty') pendingRight.push(right);
+      }
+    }
+    flush();
+
+    return { ...section, leftLines, rightLines };
+  });
+}
+
+// Rows a line of text fills when soft-wrapped at `width` columns (at least one)
+export function countWrappedRows(text: string, width: number): number {
+  return Math.max(1, Math.ceil(text.length / width));
+}
+
+// Split text into soft-wrapped chunks of `width` columns
+export function wrapText(text: string, width: number): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < text.length; start += width) {
+    chunks.push(text.slice(start, start + width));
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+// The line a unified row displays: the right side when present, since that is the editable text
+export function unifiedRowLine(left: DiffLine, right: DiffLine): DiffLine {
+  return right.type !== 'empty' ? right : left;
+}
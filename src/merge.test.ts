@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay, formatMerge, countConflicts, findConflicts, resolveConflict } from './merge.js';
+
+const labels = { local: 'LOCAL', base: 'BASE', remote: 'REMOTE' };
+
+describe('mergeThreeWay', () => {
+  it('auto-resolves changes made on one side only', () => {
+    const base = 'a\nb\nc\nd\ne';
+    const local = 'a\nB\nc\nd\ne';
+    const remote = 'a\nb\nc\nd\nE';
+    const chunks = mergeThreeWay(base, local, remote);
+
+    expect(countConflicts(chunks)).toBe(0);
+    expect(formatMerge(chunks, labels)).toBe('a\nB\nc\nd\nE');
+    expect(chunks.filter(c => c.type === 'resolved').map(c => c.type === 'resolved' && c.from)).toEqual(['local', 'remote']);
+  });
+
+  it('takes identical changes from both sides once', () => {
+    const chunks = mergeThreeWay('a\nb\nc', 'a\nX\nc', 'a\nX\nc');
+    expect(countConflicts(chunks)).toBe(0);
+    expect(formatMerge(chunks, labels)).toBe('a\nX\nc');
+  });
+
+  it('marks overlapping different changes as a diff3-style conflict', () => {
+    const chunks = mergeThreeWay('a\nb\nc', 'a\nlocal\nc', 'a\nremote\nc');
+    expect(countConflicts(chunks)).toBe(1);
+    expect(formatMerge(chunks, labels)).toBe(
+      'a\n<<<<<<< LOCAL\nlocal\n||||||| BASE\nb\n=======\nremote\n>>>>>>> REMOTE\nc');
+  });
+
+  it('treats different insertions at the same place as a conflict', () => {
+    const chunks = mergeThreeWay('a\nb', 'a\nx\nb', 'a\ny\nb');
+    expect(chunks.find(c => c.type === 'conflict')).toEqual({ type: 'conflict', base: [], local: ['x'], remote: ['y'] });
+  });
+});
+
+describe('findConflicts / resolveConflict', () => {
+  const merged = 'a\n<<<<<<< LOCAL\nl1\nl2\n||||||| BASE\nb\n=======\nr\n>>>>>>> REMOTE\nc\n<<<<<<< HEAD\nx\n=======\ny\n>>>>>>> topic\nd';
+
+  it('parses blocks with and without a base section', () => {
+    const conflicts = findConflicts(merged);
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]).toEqual({ start: 1, end: 8, local: ['l1', 'l2'], base: ['b'], remote: ['r'] });
+    expect(conflicts[1]).toEqual({ start: 10, end: 14, local: ['x'], base: null, remote: ['y'] });
+  });
+
+  it('ignores an unterminated block', () => {
+    expect(findConflicts('<<<<<<< LOCAL\nx\n=======\ny')).toEqual([]);
+  });
+
+  it('replaces a block with the chosen side', () => {
+    const [first, second] = findConflicts(merged);
+    expect(resolveConflict(merged, first, 'local').split('\n').slice(0, 4)).toEqual(['a', 'l1', 'l2', 'c']);
+    expect(resolveConflict(merged, first, 'remote').split('\n').slice(0, 3)).toEqual(['a', 'r', 'c']);
+    expect(resolveConflict(merged, first, 'base').split('\n').slice(0, 3)).toEqual(['a', 'b', 'c']);
+    expect(resolveConflict(merged, second, 'both').split('\n').slice(-3)).toEqual(['x', 'y', 'd']);
+  });
+});
@@ -0,0 +1,197 @@
+// Three-way merge
+// diff3-style merge of LOCAL and REMOTE against BASE, with git-compatible conflict markers
+
+import { diffLineArrays } from './algorithms.js';
+import type { DiffAlgorithm } from './algorithms.js';
+
+export type MergeSide = 'base' | 'local' | 'remote';
+
+export const MERGE_SIDES: MergeSide[] = ['base', 'local', 'remote'];
+
+// The three inputs of a merge session (paths are shown as labels and in conflict markers)
+export interface MergeSources {
+  base: string;
+  local: string;
+  remote: string;
+  baseFile: string;
+  localFile: string;
+  remoteFile: string;
+}
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'resolved'; from: 'local' | 'remote' | 'both'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+// A conflict marker block found in merged text; line indices are inclusive
+export interface ConflictBlock {
+  start: number;
+  end: number;
+  local: string[];
+  base: string[] | null; // Only present in diff3-style blocks
+  remote: string[];
+}
+
+export type ConflictChoice = 'local' | 'remote' | 'both' | 'base';
+
+// Replace base[baseStart, baseEnd) with lines
+interface SideHunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+function sideHunks(base: string[], side: string[], algorithm?: DiffAlgorithm): SideHunk[] {
+  const hunks: SideHunk[] = [];
+  let basePos = 0;
+  let current: SideHunk | null = null;
+
+  for (const change of diffLineArrays(base, side, algorithm)) {
+    if (!change.added && !change.removed) {
+      current = null;
+      basePos += change.value.length;
+      continue;
+    }
+    if (!current) {
+      current = { baseStart: basePos, baseEnd: basePos, lines: [] };
+      hunks.push(current);
+    }
+    if (change.removed) {
+      basePos += change.value.length;
+      current.baseEnd = basePos;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+  return hunks;
+}
+
+// One side's text for base[start, end) with its hunks in that range applied
+function applyHunks(base: string[], hunks: SideHunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let pos = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(pos, hunk.baseStart), ...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+  lines.push(...base.slice(pos, end));
+  return lines;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+// Merge local and remote changes to base. Changes from one side, or identical changes
+// from both, resolve automatically; overlapping or touching different changes conflict.
+export function mergeThreeWay(base: string, local: string, remote: string, algorithm?: DiffAlgorithm): MergeChunk[] {
+  const baseLines = base.split('\n');
+  const localHunks = sideHunks(baseLines, local.split('\n'), algorithm);
+  const remoteHunks = sideHunks(baseLines, remote.split('\n'), algorithm);
+  const chunks: MergeChunk[] = [];
+  let basePos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < localHunks.length || j < remoteHunks.length) {
+    // Start a region at the earlier hunk, then absorb everything that overlaps it
+    const takeLocal = j >= remoteHunks.length || (i < localHunks.length && localHunks[i].baseStart <= remoteHunks[j].baseStart);
+    const first = takeLocal ? localHunks[i++] : remoteHunks[j++];
+    const regionLocal = takeLocal ? [first] : [];
+    const regionRemote = takeLocal ? [] : [first];
+    const start = first.baseStart;
+    let end = first.baseEnd;
+
+    for (;;) {
+      if (i < localHunks.length && localHunks[i].baseStart <= end) {
+        end = Math.max(end, localHunks[i].baseEnd);
+        regionLocal.push(localHunks[i++]);
+      } else if (j < remoteHunks.length && remoteHunks[j].baseStart <= end) {
+        end = Math.max(end, remoteHunks[j].baseEnd);
+        regionRemote.push(remoteHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    if (start > basePos) chunks.push({ type: 'stable', lines: baseLines.slice(basePos, start) });
+    const localLines = applyHunks(baseLines, regionLocal, start, end);
+    const remoteLines = applyHunks(baseLines, regionRemote, start, end);
+
+    if (regionRemote.length === 0) {
+      chunks.push({ type: 'resolved', from: 'local', lines: localLines });
+    } else if (regionLocal.length === 0) {
+      chunks.push({ type: 'resolved', from: 'remote', lines: remoteLines });
+    } else if (sameLines(localLines, remoteLines)) {
+      chunks.push({ type: 'resolved', from: 'both', lines: localLines });
+    } else {
+      chunks.push({ type: 'conflict', base: baseLines.slice(start, end), local: localLines, remote: remoteLines });
+    }
+    basePos = end;
+  }
+
+  if (basePos < baseLines.length) chunks.push({ type: 'stable', lines: baseLines.slice(basePos) });
+  return chunks;
+}
+
+export function countConflicts(chunks: MergeChunk[]): number {
+  return chunks.filter(chunk => chunk.type === 'conflict').length;
+}
+
+// Merged text with diff3-style markers (like `git merge-file --diff3`) around each conflict
+export function formatMerge(chunks: MergeChunk[], labels: { local: string; base: string; remote: string }): string {
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type === 'conflict') {
+      lines.push(`<<<<<<< ${labels.local}`, ...chunk.local, `||||||| ${labels.base}`, ...chunk.base,
+        '=======', ...chunk.remote, `>>>>>>> ${labels.remote}`);
+    } else {
+      lines.push(...chunk.lines);
+    }
+  }
+  return lines.join('\n');
+}
+
+const isMarker = (line: string, marker: string) => line === marker || line.startsWith(marker + ' ');
+
+// Conflict marker blocks in merged text, with or without a ||||||| base section
+export function findConflicts(text: string): ConflictBlock[] {
+  const lines = text.split('\n');
+  const conflicts: ConflictBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isMarker(lines[i], '<<<<<<<')) continue;
+    let section: 'local' | 'base' | 'remote' = 'local';
+    const block: ConflictBlock = { start: i, end: -1, local: [], base: null, remote: [] };
+    for (let k = i + 1; k < lines.length; k++) {
+      const line = lines[k];
+      if (section === 'local' && isMarker(line, '|||||||')) {
+        section = 'base';
+        block.base = [];
+      } else if (section !== 'remote' && isMarker(line, '=======')) {
+        section = 'remote';
+      } else if (section === 'remote' && isMarker(line, '>>>>>>>')) {
+        block.end = k;
+        break;
+      } else if (section === 'base') {
+        block.base!.push(line);
+      } else {
+        block[section].push(line);
+      }
+    }
+    // An unterminated block is ordinary text
+    if (block.end === -1) break;
+    conflicts.push(block);
+    i = block.end;
+  }
+  return conflicts;
+}
+
+// Replace one conflict block with the chosen side(s)
+export function resolveConflict(text: string, conflict: ConflictBlock, choice: ConflictChoice): string {
+  const lines = text.split('\n');
+  const replacement = choice === 'local' ? conflict.local
+    : choice === 'remote' ? conflict.remote
+    : choice === 'both' ? [...conflict.local, ...conflict.remote]
+    : conflict.base ?? [];
+  lines.splice(conflict.start, conflict.end - conflict.start + 1, ...replacement);
+  return lines.join('\n');
+}
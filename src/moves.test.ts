@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeDiffSections, sectionHasChanges } from './diff.js';
+import type { DiffLine } from './diff.js';
+
+const helper = [
+  'function helper(value) {',
+  '  const doubled = value * 2;',
+  '  return doubled + 1;',
+  '}',
+];
+
+const allLines = (side: 'leftLines' | 'rightLines', sections: ReturnType<typeof computeDiffSections>): DiffLine[] =>
+  sections.flatMap(section => section[side]);
+
+describe('markMovedBlocks', () => {
+  it('marks a relocated function on both sides with a shared moveId', () => {
+    const body = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;', 'const e = 5;'];
+    const left = [...helper, ...body].join('\n');
+    const right = [...body, ...helper].join('\n');
+    const sections = computeDiffSections(left, right);
+
+    const leftMoved = allLines('leftLines', sections).filter(l => l.type === 'moved');
+    const rightMoved = allLines('rightLines', sections).filter(l => l.type === 'moved');
+    expect(leftMoved.map(l => l.content)).toEqual(helper);
+    expect(rightMoved.map(l => l.content)).toEqual(helper);
+    expect(new Set([...leftMoved, ...rightMoved].map(l => l.moveId)).size).toBe(1);
+    expect(sections.some(sectionHasChanges)).toBe(true);
+  });
+
+  it('still counts a block as moved when its indentation changed', () => {
+    const left = [...helper, 'const a = 1;', 'const b = 2;'].join('\n');
+    const right = ['const a = 1;', 'const b = 2;', 'class X {', ...helper.map(l => '  ' + l), '}'].join('\n');
+    const sections = computeDiffSections(left, right);
+
+    expect(allLines('rightLines', sections).filter(l => l.type === 'moved')).toHaveLength(helper.length);
+  });
+
+  it('still counts a block as moved when a line of it was edited', () => {
+    const body = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'const d = 4;', 'const e = 5;'];
+    for (const edited of [1, 2, 0]) {
+      const moved = helper.map((line, i) => i === edited ? line.replace(/value|doubled \+ 1/, match => match === 'value' ? 'input' : 'doubled + 2') : line);
+      const sections = computeDiffSections([...helper, ...body].join('\n'), [...body, ...moved].join('\n'));
+
+      expect(allLines('leftLines', sections).filter(l => l.type === 'moved').map(l => l.content)).toEqual(helper);
+      expect(allLines('rightLines', sections).filter(l => l.type === 'moved').map(l => l.content)).toEqual(moved);
+    }
+  });
+
+  it('does not take look-alike lines for a moved block', () => {
+    const left = ['const a = 1;', 'const b = 2;', 'const c = 3;', 'x();'].join('\n');
+    const right = ['x();', 'const a = 1;', 'const q = 7;', 'const r = 8;'].join('\n');
+    const sections = computeDiffSections(left, right);
+
+    expect(allLines('rightLines', sections).some(l => l.type === 'moved')).toBe(false);
+  });
+
+  it('leaves short or trivial blocks as plain removals and additions', () => {
+    const left = ['}', '}', '', 'x = 1', 'y = 2', 'z = 3'].join('\n');
+    const right = ['x = 1', 'y = 2', 'z = 3', '}', '}', ''].join('\n');
+    const sections = computeDiffSections(left, right);
+
+    expect([...allLines('leftLines', sections), ...allLines('rightLines', sections)].some(l => l.type === 'moved')).toBe(false);
+  });
+
+  it('drops word highlights on rows containing moved lines', () => {
+    const left = [...helper, 'let total = 0;'].join('\n');
+    const right = ['let total = 10;', ...helper].join('\n');
+    const sections = computeDiffSections(left, right);
+
+    for (const line of [...allLines('leftLines', sections), ...allLines('rightLines', sections)]) {
+      if (line.type === 'moved') expect(line.spans).toBeUndefined();
+    }
+  });
+});
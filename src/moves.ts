@@ -0,0 +1,123 @@
+// Moved-block detection
+// Finds runs of removed lines that reappear, unchanged or nearly so, as a run of added lines
+// elsewhere in the file
+
+import { lineSimilarity, PAIR_THRESHOLD } from './diff.js';
+import type { DiffSection, DiffLine } from './diff.js';
+
+// Smallest block worth calling a move, like git's --color-moved defaults
+const MIN_MOVED_LINES = 3;
+const MIN_MOVED_CHARS = 20;
+// Lines this common (braces, `return;`) are too ambiguous to start a block on
+const MAX_CANDIDATES = 64;
+
+interface LineRef {
+  line: DiffLine;
+  lineNumber: number;
+  key: string;
+}
+
+// Indentation and spacing changes are common when code moves, so compare collapsed text
+const moveKey = (content: string) => content.trim().replace(/\s+/g, ' ');
+
+function collectLines(sections: DiffSection[], side: 'left' | 'right', type: DiffLine['type']): LineRef[] {
+  const refs: LineRef[] = [];
+  for (const section of sections) {
+    let lineNumber = side === 'left' ? section.leftStart : section.rightStart;
+    for (const line of side === 'left' ? section.leftLines : section.rightLines) {
+      if (line.type === type) {
+        refs.push({ line, lineNumber, key: moveKey(line.content) });
+      }
+      if (line.type !== 'empty') lineNumber++;
+    }
+  }
+  return refs;
+}
+
+// Both lists advance through consecutive file lines
+const continues = (refs: LineRef[], index: number) =>
+  index === 0 || refs[index].lineNumber === refs[index - 1].lineNumber + 1;
+
+// A line edited along the way still belongs to the block
+const similar = (a: LineRef, b: LineRef) =>
+  a.key === b.key || (a.key !== '' && b.key !== '' && lineSimilarity(a.key, b.key) > PAIR_THRESHOLD);
+
+// Retype removed/added lines that form a moved block as 'moved', sharing a moveId per block.
+// Mutates the sections in place.
+export function markMovedBlocks(sections: DiffSection[]): void {
+  const removed = collectLines(sections, 'left', 'remove');
+  const added = collectLines(sections, 'right', 'add');
+  if (removed.length < MIN_MOVED_LINES || added.length < MIN_MOVED_LINES) return;
+
+  const addedByKey = new Map<string, number[]>();
+  added.forEach((ref, index) => {
+    if (ref.key === '') return;
+    const list = addedByKey.get(ref.key);
+    if (list) list.push(index);
+    else addedByKey.set(ref.key, [index]);
+  });
+
+  const usedAdded = new Array<boolean>(added.length).fill(false);
+  let moveId = 0;
+
+  for (let i = 0; i < removed.length;) {
+    const candidates = addedByKey.get(removed[i].key) ?? [];
+    // Blocks start on an identical line and take in similar ones on both ends
+    let best = { back: 0, length: 0, start: -1, exact: 0 };
+
+    if (candidates.length <= MAX_CANDIDATES) {
+      for (const j of candidates) {
+        let exact = 0;
+        let length = 0;
+        while (i + length < removed.length && j + length < added.length && !usedAdded[j + length] &&
+               (length === 0 || (continues(removed, i + length) && continues(added, j + length) &&
+                                 similar(removed[i + length], added[j + length])))) {
+          if (removed[i + length].key === added[j + length].key) exact++;
+          length++;
+        }
+        if (length === 0) continue;
+        let back = 0;
+        while (i - back > 0 && j - back > 0 && !usedAdded[j - back - 1] &&
+               removed[i - back - 1].line.type === 'remove' &&
+               continues(removed, i - back) && continues(added, j - back) &&
+               similar(removed[i - back - 1], added[j - back - 1])) {
+          if (removed[i - back - 1].key === added[j - back - 1].key) exact++;
+          back++;
+        }
+        if (back + length > best.back + best.length) best = { back, length, start: j - back, exact };
+      }
+    }
+
+    const total = best.back + best.length;
+    const from = i - best.back;
+    const chars = removed.slice(from, from + total).reduce((sum, ref) => sum + ref.key.replace(/\W/g, '').length, 0);
+    // Mostly unchanged, so look-alike lines (`const a = 1;`, `const b = 2;`) do not make a move
+    if (total >= MIN_MOVED_LINES && chars >= MIN_MOVED_CHARS && best.exact * 2 > total) {
+      moveId++;
+      for (let k = 0; k < total; k++) {
+        for (const ref of [removed[from + k], added[best.start + k]]) {
+          ref.line.type = 'moved';
+          ref.line.moveId = moveId;
+        }
+        usedAdded[best.start + k] = true;
+      }
+      i += best.length;
+    } else {
+      i++;
+    }
+  }
+
+  if (moveId === 0) return;
+
+  // Word highlights were computed against the row partner, which is meaningless for moved lines
+  for (const section of sections) {
+    for (let row = 0; row < section.leftLines.length; row++) {
+      const left = section.leftLines[row];
+      const right = section.rightLines[row];
+      if (left.type === 'moved' || right.type === 'moved') {
+        delete left.spans;
+        delete right.spans;
+      }
+    }
+  }
+}
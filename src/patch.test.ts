@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import { parsePatch, patchFileEntry, patchFileToSections, describePatchFile, formatPatch, formatSectionsPatch, formatGitHeader, createPatchStream } from './patch.js';
+import { computeDiffSections } from './diff.js';
+
+const gitPatch = `diff --git a/src/a.ts b/src/a.ts
+index 83db48f..bf269f4 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,4 +1,4 @@ function top() {
+ one
+-two
++TWO
+ three
+ four
+@@ -10,3 +10,4 @@
+ ten
+ eleven
++added
+ twelve
+diff --git a/old name.txt b/new name.txt
+similarity index 90%
+rename from old name.txt
+rename to new name.txt
+diff --git a/script.sh b/script.sh
+old mode 100644
+new mode 100755
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+index 1234567..0000000
+--- a/gone.txt
++++ /dev/null
+@@ -1,2 +0,0 @@
+-first
+-last
+\\ No newline at end of file
+`;
+
+describe('parsePatch', () => {
+  it('splits a git patch into files', () => {
+    const files = parsePatch(gitPatch);
+    expect(files.map(f => f.newPath)).toEqual(['src/a.ts', 'new name.txt', 'script.sh', '/dev/null']);
+  });
+
+  it('parses hunk headers and bodies', () => {
+    const [file] = parsePatch(gitPatch);
+    expect(file.hunks).toHaveLength(2);
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 4, header: 'function top() {' });
+    expect(file.hunks[1].lines).toEqual([' ten', ' eleven', '+added', ' twelve']);
+  });
+
+  it('reads git extended headers', () => {
+    const files = parsePatch(gitPatch);
+    expect(files[1]).toMatchObject({ isRename: true, oldPath: 'old name.txt', newPath: 'new name.txt', similarity: 90 });
+    expect(files[2]).toMatchObject({ oldMode: '100644', newMode: '100755' });
+    expect(files[3]).toMatchObject({ isDeleted: true, oldPath: 'gone.txt', oldNoNewlineAtEnd: true, newNoNewlineAtEnd: false });
+  });
+
+  it('reads diffs colored by git', () => {
+    // git -c color.diff=always diff
+    const colored = [
+      '\x1b[1mdiff --git a/src/a.ts b/src/a.ts\x1b[m',
+      '\x1b[1mindex 83db48f..bf269f4 100644\x1b[m',
+      '\x1b[1m--- a/src/a.ts\x1b[m',
+      '\x1b[1m+++ b/src/a.ts\x1b[m',
+      '\x1b[36m@@ -1,3 +1,3 @@\x1b[m \x1b[mfunction top() {\x1b[m',
+      ' one\x1b[m',
+      '\x1b[31m-two\x1b[m',
+      '\x1b[32m+\x1b[m\x1b[32mTWO\x1b[m',
+      ' three\x1b[m',
+      '',
+    ].join('\n');
+    const [file] = parsePatch(colored);
+    expect(file).toMatchObject({ oldPath: 'src/a.ts', newPath: 'src/a.ts' });
+    expect(file.hunks[0]).toMatchObject({ oldStart: 1, newStart: 1, header: 'function top() {' });
+    expect(file.hunks[0].lines).toEqual([' one', '-two', '+TWO', ' three']);
+
+    const stream = createPatchStream();
+    expect([...stream.write(colored), ...stream.end()]).toEqual([file]);
+  });
+
+  it('handles plain diff -u output with timestamps', () => {
+    const files = parsePatch(`--- a.txt\t2024-01-01 10:00:00
++++ b.txt\t2024-01-02 10:00:00
+@@ -1 +1 @@
+-x
++y
+--- c.txt
++++ d.txt
+@@ -1 +1,2 @@
+ z
++w
+`);
+    expect(files).toHaveLength(2);
+    expect(files[0]).toMatchObject({ oldPath: 'a.txt', newPath: 'b.txt' });
+    expect(files[1].hunks[0].lines).toEqual([' z', '+w']);
+  });
+
+  it('does not mistake removed "-- " lines for file headers', () => {
+    const files = parsePatch(`--- a.sql
++++ b.sql
+@@ -1,2 +1,1 @@
+--- comment
+ select 1;
+`);
+    expect(files).toHaveLength(1);
+    expect(files[0].hunks[0].lines).toEqual(['--- comment', ' select 1;']);
+  });
+});
+
+describe('patchFileToSections', () => {
+  it('numbers sections from the hunk headers', () => {
+    const [file] = parsePatch(gitPatch);
+    const sections = patchFileToSections(file);
+    const added = sections.find(s => s.rightLines.some(l => l.type === 'add' && l.content === 'added'));
+    expect(added).toBeDefined();
+    expect(added!.rightStart).toBe(11);
+    expect(sections[0].leftStart).toBe(0);
+  });
+
+  it('pairs removed and added lines like computeDiffSections', () => {
+    const [file] = parsePatch(gitPatch);
+    const changed = patchFileToSections(file).find(s => s.leftLines.some(l => l.type === 'remove'))!;
+    expect(changed.leftLines[0]).toEqual({ content: 'two', type: 'remove' });
+    expect(changed.rightLines[0]).toEqual({ content: 'TWO', type: 'add' });
+  });
+
+  it('returns no sections for header-only changes', () => {
+    const files = parsePatch(gitPatch);
+    expect(patchFileToSections(files[1])).toEqual([]);
+    expect(describePatchFile(files[1])).toEqual(['renamed old name.txt → new name.txt (90% similar)']);
+  });
+});
+
+describe('formatPatch', () => {
+  it('writes hunks that parsePatch reads back', () => {
+    const patch = formatPatch('one\ntwo\nthree\n', 'one\nTWO\nthree\n', 'a/f.txt', 'b/f.txt');
+    expect(patch).toBe('--- a/f.txt\n+++ b/f.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n');
+
+    const [file] = parsePatch(patch);
+    expect(file.oldPath).toBe('f.txt');
+    expect(file.hunks[0].lines).toEqual([' one', '-two', '+TWO', ' three']);
+  });
+
+  it('starts an empty range before the first line', () => {
+    expect(formatPatch('', 'new\n', 'a/f', 'b/f')).toContain('@@ -0,0 +1,1 @@\n+new\n');
+  });
+
+  it('is empty for equal texts', () => {
+    expect(formatPatch('same', 'same', 'a/f', 'b/f')).toBe('');
+  });
+});
+
+describe('formatSectionsPatch', () => {
+  it('matches diff -u for whole files', () => {
+    const left = 'one\ntwo\nthree\n4\n5\n6\n7\n8\n9\n';
+    const right = 'one\nTWO\nthree\n4\n5\n6\n7\n8\n9\nten\n';
+    expect(formatSectionsPatch(computeDiffSections(left, right), 'l', 'r', { context: 1 })).toBe(
+      '--- l\n+++ r\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n@@ -9,1 +9,2 @@\n 9\n+ten\n'
+    );
+  });
+
+  it('marks a missing final newline', () => {
+    expect(formatSectionsPatch(computeDiffSections('a\nb\n', 'a\nb'), 'l', 'r')).toBe(
+      '--- l\n+++ r\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n'
+    );
+    expect(formatSectionsPatch(computeDiffSections('a', 'b'), 'l', 'r')).toBe(
+      '--- l\n+++ r\n@@ -1,1 +1,1 @@\n-a\n\\ No newline at end of file\n+b\n\\ No newline at end of file\n'
+    );
+  });
+
+  it('keeps the hunk positions of sections parsed from a patch', () => {
+    const [file] = parsePatch(gitPatch);
+    const patch = formatSectionsPatch(patchFileToSections(file), 'a/src/a.ts', 'b/src/a.ts', { wholeFiles: false });
+    expect(patch.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,4 +1,4 @@', '@@ -10,3 +10,4 @@']);
+  });
+
+  it('round-trips a -U0 patch with separate hunks and no final newline', () => {
+    const patch = [
+      '--- a', '+++ b',
+      '@@ -2 +2 @@', '-2', '+two',
+      '@@ -12 +12 @@', '-12', '\\ No newline at end of file', '+twelve', '\\ No newline at end of file',
+      '',
+    ].join('\n');
+    const [file] = parsePatch(patch);
+    expect(formatSectionsPatch(patchFileToSections(file), 'a', 'b', {
+      context: 0,
+      wholeFiles: false,
+      oldNoNewlineAtEnd: file.oldNoNewlineAtEnd,
+      newNoNewlineAtEnd: file.newNoNewlineAtEnd,
+    })).toBe(patch.replace('@@ -2 +2 @@', '@@ -2,1 +2,1 @@').replace('@@ -12 +12 @@', '@@ -12,1 +12,1 @@'));
+  });
+
+  it('writes no hunk for changes an ignore option hides', () => {
+    const options = { ignoreBlankLines: true };
+    const left = 'a\nb\nc\nd\ne\nf\ng\nh\n';
+    const right = 'a\n\nb\nc\nd\ne\nf\ng\nh\n';
+    expect(formatSectionsPatch(computeDiffSections(left, right, options), 'l', 'r')).toBe('');
+    expect(formatSectionsPatch(computeDiffSections(right, left, options), 'r', 'l')).toBe('');
+    expect(formatSectionsPatch(computeDiffSections('a\n', 'a\n\n', options), 'l', 'r')).toBe('');
+  });
+
+  it('counts ignored lines only on their own side', () => {
+    const options = { ignoreBlankLines: true };
+    const left = 'a\nb\nc\nd\n';
+    expect(formatSectionsPatch(computeDiffSections(left, 'a\n\nb\nc\nD\n', options), 'l', 'r')).toBe(
+      '--- l\n+++ r\n@@ -2,3 +3,3 @@\n b\n c\n-d\n+D\n'
+    );
+    expect(formatSectionsPatch(computeDiffSections('a\n\nb\nc\nd\n', 'a\nb\nc\nD\n', options), 'l', 'r')).toBe(
+      '--- l\n+++ r\n@@ -3,3 +2,3 @@\n b\n c\n-d\n+D\n'
+    );
+  });
+
+  it('is empty without changes', () => {
+    expect(formatSectionsPatch(computeDiffSections('same\n', 'same\n'), 'l', 'r')).toBe('');
+  });
+});
+
+describe('formatGitHeader', () => {
+  it('writes the git header of renames and mode changes', () => {
+    const files = parsePatch(gitPatch);
+    expect(formatGitHeader(files[1])).toEqual([
+      'diff --git a/old name.txt b/new name.txt',
+      'similarity index 90%',
+      'rename from old name.txt',
+      'rename to new name.txt',
+    ]);
+    expect(formatGitHeader(files[2])).toEqual(['diff --git a/script.sh b/script.sh', 'old mode 100644', 'new mode 100755']);
+    expect(formatGitHeader(files[3])).toEqual(['diff --git a/gone.txt b/gone.txt', 'deleted file mode 100644']);
+  });
+
+  it('is only the diff line when the hunks show every change', () => {
+    expect(formatGitHeader(parsePatch(gitPatch)[0])).toEqual(['diff --git a/src/a.ts b/src/a.ts']);
+    expect(formatGitHeader(parsePatch('--- a.txt\n+++ b.txt\n@@ -1 +1 @@\n-x\n+y\n')[0])).toEqual([]);
+  });
+});
+
+describe('patchFileEntry', () => {
+  it('names added and deleted files by the side that exists', () => {
+    const [modified, , , deleted] = parsePatch(gitPatch).map(patchFileEntry);
+    expect(modified).toMatchObject({ label: 'src/a.ts', status: 'modified' });
+    expect(deleted).toMatchObject({ leftFile: 'gone.txt', rightFile: '/dev/null', label: 'gone.txt', status: 'removed' });
+
+    const [added] = parsePatch('--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+hello\n').map(patchFileEntry);
+    expect(added).toMatchObject({ label: 'new.txt', status: 'added' });
+  });
+});
+
+describe('createPatchStream', () => {
+  it('hands out each file once the next one starts, in any chunking', () => {
+    const stream = createPatchStream();
+    const chunks = ['commit abc\n\n    message\n\n', gitPatch.slice(0, 40), gitPatch.slice(40, 200), gitPatch.slice(200)];
+    const seen = chunks.map(chunk => stream.write(chunk).map(file => file.newPath));
+    seen.push(stream.end().map(file => file.newPath));
+    expect(seen.flat()).toEqual(parsePatch(gitPatch).map(file => file.newPath));
+    expect(seen[seen.length - 1]).toHaveLength(1);
+  });
+
+  it('parses files the same as the whole text', () => {
+    const stream = createPatchStream();
+    const files = [...gitPatch].flatMap(char => stream.write(char));
+    expect([...files, ...stream.end()]).toEqual(parsePatch(gitPatch));
+  });
+
+  it('yields nothing for empty or non-diff input', () => {
+    const stream = createPatchStream();
+    expect(stream.write('just some text\n')).toEqual([]);
+    expect(stream.end()).toEqual([]);
+  });
+});
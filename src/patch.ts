@@ -0,0 +1,537 @@
+// Unified diff parsing and writing
+// Rebuilds DiffSections from `diff -u` / `git diff` output so patches can be viewed like file pairs,
+// and writes patches of texts edited in the viewer
+
+import { structuredPatch } from 'diff';
+import { sectionsFromChanges } from './diff.js';
+import { markMovedBlocks } from './moves.js';
+import type { DiffSection, LineChange } from './diff.js';
+import type { FileEntry } from './FilesApp.js';
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string; // Text after the closing @@ (usually the enclosing function)
+  lines: string[]; // Body lines with their ' ', '-', '+' or '\' prefix
+}
+
+export interface PatchFile {
+  oldPath: string; // '/dev/null' for added files
+  newPath: string; // '/dev/null' for deleted files
+  hunks: PatchHunk[];
+  isGit: boolean; // Opened by a `diff --git` line, so may carry the extended header lines below
+  isNew: boolean;
+  isDeleted: boolean;
+  isRename: boolean;
+  isCopy: boolean;
+  isBinary: boolean;
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;
+  oldNoNewlineAtEnd: boolean;
+  newNoNewlineAtEnd: boolean;
+}
+
+export const DEV_NULL = '/dev/null';
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const COLOR = /\x1b\[[0-9;]*m/g;
+
+function createFile(oldPath = '', newPath = ''): PatchFile {
+  return {
+    oldPath,
+    newPath,
+    hunks: [],
+    isGit: false,
+    isNew: false,
+    isDeleted: false,
+    isRename: false,
+    isCopy: false,
+    isBinary: false,
+    oldNoNewlineAtEnd: false,
+    newNoNewlineAtEnd: false,
+  };
+}
+
+// Strip the timestamp diff(1) appends after a tab, surrounding quotes and the a/ b/ prefixes
+function cleanPath(raw: string): string {
+  let path = raw.split('\t')[0].trim();
+  if (path.startsWith('"') && path.endsWith('"')) {
+    path = path.slice(1, -1);
+  }
+  if (path === DEV_NULL) return path;
+  if (path.startsWith('a/') || path.startsWith('b/')) {
+    return path.slice(2);
+  }
+  return path;
+}
+
+// `diff --git a/x b/y` - paths may contain spaces, so split on the last " b/"
+function parseGitHeaderPaths(line: string): [string, string] {
+  const rest = line.slice('diff --git '.length);
+  const split = rest.lastIndexOf(' b/');
+  if (split === -1) {
+    const [a, b] = rest.split(' ');
+    return [cleanPath(a || ''), cleanPath(b || '')];
+  }
+  return [cleanPath(rest.slice(0, split)), cleanPath(rest.slice(split + 1))];
+}
+
+// git colors diffs it sends to a pager, so escapes are dropped before parsing
+function stripColors(line: string): string {
+  return line.replace(COLOR, '');
+}
+
+export function parsePatch(text: string): PatchFile[] {
+  return parsePatchLines(text.split('\n').map(stripColors)).files;
+}
+
+// Takes lines without color escapes; also returns the index of the line each file's header starts at
+function parsePatchLines(lines: string[]): { files: PatchFile[]; starts: number[] } {
+  const files: PatchFile[] = [];
+  const starts: number[] = [];
+  let current: PatchFile | null = null;
+  // True while reading a `diff --git` header block, where ---/+++ belong to the same file
+  let inGitHeader = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    if (line.startsWith('diff --git ')) {
+      const [oldPath, newPath] = parseGitHeaderPaths(line);
+      current = createFile(oldPath, newPath);
+      current.isGit = true;
+      files.push(current);
+      starts.push(i);
+      inGitHeader = true;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+      const oldPath = cleanPath(line.slice(4));
+      const newPath = cleanPath(lines[i + 1].slice(4));
+      if (!current || !inGitHeader || current.hunks.length > 0) {
+        current = createFile();
+        files.push(current);
+        starts.push(i);
+      }
+      current.oldPath = oldPath;
+      current.newPath = newPath;
+      if (oldPath === DEV_NULL) current.isNew = true;
+      if (newPath === DEV_NULL) current.isDeleted = true;
+      inGitHeader = false;
+      i++;
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch && current) {
+      const hunk: PatchHunk = {
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        newStart: parseInt(hunkMatch[3], 10),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        header: hunkMatch[5] || '',
+        lines: [],
+      };
+      current.hunks.push(hunk);
+      inGitHeader = false;
+
+      // Consume exactly the number of lines the header announces
+      let oldRemaining = hunk.oldLines;
+      let newRemaining = hunk.newLines;
+      let lastSide: 'old' | 'new' | 'both' = 'both';
+      while (i + 1 < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i + 1].startsWith('\\'))) {
+        const body = lines[i + 1].replace(/\r$/, '');
+        const marker = body[0];
+        if (marker === '\\') {
+          // "\ No newline at end of file" applies to the line before it
+          if (lastSide !== 'new') current.oldNoNewlineAtEnd = true;
+          if (lastSide !== 'old') current.newNoNewlineAtEnd = true;
+        } else if (marker === '-') {
+          oldRemaining--;
+          lastSide = 'old';
+        } else if (marker === '+') {
+          newRemaining--;
+          lastSide = 'new';
+        } else if (marker === ' ' || body === '') {
+          // Some mailers strip the single space from blank context lines
+          oldRemaining--;
+          newRemaining--;
+          lastSide = 'both';
+        } else {
+          break; // Truncated hunk - stop at whatever follows
+        }
+        hunk.lines.push(marker === undefined ? ' ' : body);
+        i++;
+      }
+      continue;
+    }
+
+    if (!current || !inGitHeader) continue;
+
+    // Git extended header lines
+    if (line.startsWith('new file mode ')) {
+      current.isNew = true;
+      current.newMode = line.slice('new file mode '.length);
+    } else if (line.startsWith('deleted file mode ')) {
+      current.isDeleted = true;
+      current.oldMode = line.slice('deleted file mode '.length);
+    } else if (line.startsWith('old mode ')) {
+      current.oldMode = line.slice('old mode '.length);
+    } else if (line.startsWith('new mode ')) {
+      current.newMode = line.slice('new mode '.length);
+    } else if (line.startsWith('rename from ')) {
+      current.isRename = true;
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.isRename = true;
+      current.newPath = line.slice('rename to '.length);
+    } else if (line.startsWith('copy from ')) {
+      current.isCopy = true;
+      current.oldPath = line.slice('copy from '.length);
+    } else if (line.startsWith('copy to ')) {
+      current.isCopy = true;
+      current.newPath = line.slice('copy to '.length);
+    } else if (line.startsWith('similarity index ')) {
+      current.similarity = parseInt(line.slice('similarity index '.length), 10);
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      current.isBinary = true;
+    }
+  }
+
+  return { files, starts };
+}
+
+export interface PatchStream {
+  write(chunk: string): PatchFile[]; // Files completed by this chunk
+  end(): PatchFile[]; // The rest, once the input is over
+}
+
+// Parse a diff that arrives in chunks (e.g. piped from git): a file is complete once the next
+// one's header has arrived, so each is handed out as soon as possible and parsed only once
+// the whole of it is in. Text before the first file (e.g. a commit message) is skipped.
+export function createPatchStream(): PatchStream {
+  let pending: string[] = []; // Complete lines from the start of the file being read
+  let partial = ''; // Unterminated last line
+
+  return {
+    write(chunk) {
+      const lines = (partial + chunk).split('\n');
+      partial = lines.pop()!;
+      for (const line of lines) pending.push(stripColors(line));
+      // Only a header line can complete a file
+      const added = pending.slice(pending.length - lines.length);
+      if (!added.some(line => line.startsWith('diff --git ') || line.startsWith('--- ') || line.startsWith('+++ '))) return [];
+      const { files, starts } = parsePatchLines(pending);
+      if (files.length < 2) return [];
+      pending = pending.slice(starts[starts.length - 1]);
+      return files.slice(0, -1);
+    },
+    end() {
+      const files = parsePatchLines([...pending, stripColors(partial)]).files;
+      pending = [];
+      partial = '';
+      return files;
+    },
+  };
+}
+
+// A patched file as a read-only file pair. Added and deleted files are named by the side that
+// exists, since the other one is /dev/null.
+export function patchFileEntry(file: PatchFile): FileEntry {
+  return {
+    leftFile: file.oldPath,
+    rightFile: file.newPath,
+    leftContent: '',
+    rightContent: '',
+    sections: patchFileToSections(file),
+    notes: describePatchFile(file),
+    label: file.newPath === DEV_NULL ? file.oldPath : file.newPath,
+    status: file.isNew ? 'added' : file.isDeleted ? 'removed' : 'modified',
+  };
+}
+
+// The `diff --git` header of a file from a git patch, with what hunks can't show (renames, copies,
+// mode changes, binary files); [] for plain diff -u files. File names below it take a/ and b/.
+export function formatGitHeader(file: PatchFile): string[] {
+  if (!file.isGit) return [];
+  const modeChanged = !!file.oldMode && !!file.newMode && file.oldMode !== file.newMode;
+  const oldPath = file.isNew ? file.newPath : file.oldPath;
+  const newPath = file.isDeleted ? file.oldPath : file.newPath;
+  const lines = [`diff --git a/${oldPath} b/${newPath}`];
+  if (file.isNew && file.newMode) lines.push(`new file mode ${file.newMode}`);
+  if (file.isDeleted && file.oldMode) lines.push(`deleted file mode ${file.oldMode}`);
+  if (modeChanged) lines.push(`old mode ${file.oldMode}`, `new mode ${file.newMode}`);
+  if (file.similarity !== undefined) lines.push(`similarity index ${file.similarity}%`);
+  if (file.isRename) lines.push(`rename from ${file.oldPath}`, `rename to ${file.newPath}`);
+  if (file.isCopy) lines.push(`copy from ${file.oldPath}`, `copy to ${file.newPath}`);
+  if (file.isBinary) {
+    lines.push(`Binary files ${file.isNew ? DEV_NULL : `a/${oldPath}`} and ${file.isDeleted ? DEV_NULL : `b/${newPath}`} differ`);
+  }
+  return lines;
+}
+
+// Convert each hunk into sections numbered by the hunk header, so line numbers match the real files
+export function patchFileToSections(file: PatchFile): DiffSection[] {
+  const sections: DiffSection[] = [];
+
+  for (const hunk of file.hunks) {
+    const changes: LineChange[] = [];
+    for (const line of hunk.lines) {
+      const marker = line[0];
+      if (marker === '\\') continue;
+      const change: LineChange = marker === '-' ? { value: [], removed: true }
+        : marker === '+' ? { value: [], added: true }
+        : { value: [] };
+      const last = changes[changes.length - 1];
+      if (last && !!last.removed === !!change.removed && !!last.added === !!change.added) {
+        last.value.push(line.slice(1));
+      } else {
+        change.value.push(line.slice(1));
+        changes.push(change);
+      }
+    }
+
+    // A zero-length range names the line *after which* the change applies
+    const leftStart = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const rightStart = hunk.newLines === 0 ? hunk.newStart : hunk.newStart - 1;
+    sections.push(...sectionsFromChanges(changes, leftStart, rightStart));
+  }
+
+  markMovedBlocks(sections);
+  return sections;
+}
+
+// Short human-readable notes for header-only information (renames, mode changes, binaries)
+export function describePatchFile(file: PatchFile): string[] {
+  const notes: string[] = [];
+  if (file.isNew) notes.push(`new file${file.newMode ? ` (mode ${file.newMode})` : ''}`);
+  if (file.isDeleted) notes.push(`deleted file${file.oldMode ? ` (mode ${file.oldMode})` : ''}`);
+  if (file.isRename) {
+    notes.push(`renamed ${file.oldPath} → ${file.newPath}${file.similarity !== undefined ? ` (${file.similarity}% similar)` : ''}`);
+  }
+  if (file.isCopy) notes.push(`copied ${file.oldPath} → ${file.newPath}`);
+  if (!file.isNew && !file.isDeleted && file.oldMode && file.newMode && file.oldMode !== file.newMode) {
+    notes.push(`mode ${file.oldMode} → ${file.newMode}`);
+  }
+  if (file.isBinary) notes.push('binary file');
+  if (file.oldNoNewlineAtEnd) notes.push('old: no newline at end of file');
+  if (file.newNoNewlineAtEnd) notes.push('new: no newline at end of file');
+  return notes;
+}
+
+// Exported patches go from the left file or from the right file as loaded to the edited right side
+export type PatchBase = 'left' | 'right';
+
+export const PATCH_BASES: PatchBase[] = ['left', 'right'];
+
+// Unified diff turning oldText into newText ('' when they are equal); pass a/ and b/ prefixed
+// paths for a patch that `git apply` takes
+export function formatPatch(oldText: string, newText: string, oldPath: string, newPath: string, context = 3): string {
+  if (oldText === newText) return '';
+  const patch = structuredPatch(oldPath, newPath, oldText, newText, undefined, undefined, { context });
+  const lines = [`--- ${oldPath}`, `+++ ${newPath}`];
+  for (const hunk of patch.hunks) {
+    // Like the hunk parser above: an empty range starts at the line before the change
+    const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+    lines.push(`@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`, ...hunk.lines);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// A line of a patch body; `noEol` lines are followed by "\ No newline at end of file"
+interface BodyLine {
+  marker: ' ' | '-' | '+';
+  text: string;
+  noEol?: boolean;
+  at?: { old: number; new: number }; // 0-based start of the section the line opens
+  ignored?: boolean; // One-sided line an ignore option hides: counts on its side but is not written
+}
+
+function takesOld(line: BodyLine): boolean {
+  return line.marker !== '+';
+}
+
+function takesNew(line: BodyLine): boolean {
+  return line.marker !== '-';
+}
+
+function lastIndex(lines: BodyLine[], test: (line: BodyLine) => boolean): number {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (test(lines[i])) return i;
+  }
+  return -1;
+}
+
+// The '' after a final newline is not a line in patch terms: drop it from each side that ends in
+// one (a shared '' stays a line on the other side). Returns which sides end in a newline.
+function trimFinalNewlines(body: BodyLine[]): { body: BodyLine[]; oldEol: boolean; newEol: boolean } {
+  const lastOld = lastIndex(body, takesOld);
+  const lastNew = lastIndex(body, takesNew);
+  const oldEol = lastOld !== -1 && body[lastOld].text === '';
+  const newEol = lastNew !== -1 && body[lastNew].text === '';
+
+  const result: (BodyLine | null)[] = [...body];
+  if (oldEol && newEol && lastOld === lastNew) {
+    result[lastOld] = null;
+  } else {
+    // A shared line left on one side stands in for the dropped one, ignored or not
+    if (oldEol) {
+      result[lastOld] = body[lastOld].marker === ' '
+        ? { ...body[lastOld], marker: '+', ignored: newEol && body[lastNew].ignored }
+        : null;
+    }
+    if (newEol) {
+      result[lastNew] = body[lastNew].marker === ' '
+        ? { ...body[lastNew], marker: '-', ignored: oldEol && body[lastOld].ignored }
+        : null;
+    }
+  }
+  return { body: result.filter(line => line !== null), oldEol, newEol };
+}
+
+// Mark the last line of each side that doesn't end in a newline, splitting a shared last line
+// when only one side lacks it
+function markMissingNewlines(body: BodyLine[], oldNoEol: boolean, newNoEol: boolean): BodyLine[] {
+  const result = [...body];
+  const oldEnd = oldNoEol ? lastIndex(result, takesOld) : -1;
+  const newEnd = newNoEol ? lastIndex(result, takesNew) : -1;
+  if (oldEnd !== -1 && oldEnd === newEnd) {
+    result[oldEnd] = { ...result[oldEnd], noEol: true };
+    return result;
+  }
+  if (oldEnd !== -1) {
+    // The first line of a split keeps the section start (`at`) of the line it replaces
+    const line = result[oldEnd];
+    const split: BodyLine[] = line.marker === ' ' ? [{ marker: '+', text: line.text }] : [];
+    result.splice(oldEnd, 1, { ...line, marker: '-', noEol: true }, ...split);
+  }
+  const end = newNoEol ? lastIndex(result, takesNew) : -1;
+  if (end !== -1) {
+    const line = result[end];
+    if (line.marker === ' ') {
+      result.splice(end, 1, { ...line, marker: '-' }, { marker: '+', text: line.text, noEol: true });
+    } else {
+      result[end] = { ...line, noEol: true };
+    }
+  }
+  return result;
+}
+
+export interface SectionsPatchOptions {
+  context?: number; // Lines around each change (default 3)
+  // The sections cover both texts from start to end (split on '\n', as computeDiffSections does);
+  // otherwise (e.g. sections parsed from a patch) each keeps its own start lines
+  wholeFiles?: boolean;
+  // Only read without wholeFiles, where the final '' line is not there to tell
+  oldNoNewlineAtEnd?: boolean;
+  newNoNewlineAtEnd?: boolean;
+}
+
+// Unified diff of already aligned sections, so ignore options and the chosen algorithm shape the hunks
+export function formatSectionsPatch(
+  sections: DiffSection[],
+  oldPath: string,
+  newPath: string,
+  options: SectionsPatchOptions = {}
+): string {
+  const { context = 3, wholeFiles = true } = options;
+  let body: BodyLine[] = [];
+  for (const section of sections) {
+    const start = body.length;
+    const removed: BodyLine[] = [];
+    const added: BodyLine[] = [];
+    // Within a run of changed rows, removed lines come before added ones
+    const flush = () => {
+      body.push(...removed, ...added);
+      removed.length = 0;
+      added.length = 0;
+    };
+    const rows = Math.max(section.leftLines.length, section.rightLines.length);
+    for (let i = 0; i < rows; i++) {
+      const left = section.leftLines[i];
+      const right = section.rightLines[i];
+      if (left?.type === 'equal' || right?.type === 'equal') {
+        flush();
+        if (left?.type === 'equal' && right?.type === 'equal') {
+          body.push({ marker: ' ', text: left.content });
+        } else if (left?.type === 'equal') {
+          body.push({ marker: '-', text: left.content, ignored: true });
+        } else if (right) {
+          body.push({ marker: '+', text: right.content, ignored: true });
+        }
+        continue;
+      }
+      if (left && left.type !== 'empty') removed.push({ marker: '-', text: left.content });
+      if (right && right.type !== 'empty') added.push({ marker: '+', text: right.content });
+    }
+    flush();
+    if (!wholeFiles && body.length > start) {
+      body[start] = { ...body[start], at: { old: section.leftStart, new: section.rightStart } };
+    }
+  }
+  if (wholeFiles) {
+    const trimmed = trimFinalNewlines(body);
+    body = markMissingNewlines(trimmed.body, !trimmed.oldEol, !trimmed.newEol);
+  } else {
+    body = markMissingNewlines(body, !!options.oldNoNewlineAtEnd, !!options.newNoNewlineAtEnd);
+  }
+
+  // Where each line sits, and whether it continues the line before it (sections from a patch may
+  // not). Ignored lines only move their side along: they are left out and break the hunk there,
+  // so a stretch of nothing but ignored changes writes no hunk.
+  const shown: BodyLine[] = [];
+  const positions: { old: number; new: number; joined: boolean }[] = [];
+  let old = 0;
+  let neu = 0;
+  let broken = false;
+  for (const line of body) {
+    const joined = !broken && (!line.at || (line.at.old === old && line.at.new === neu));
+    if (line.at) ({ old, new: neu } = line.at);
+    broken = !!line.ignored;
+    if (!line.ignored) {
+      shown.push(line);
+      positions.push({ old, new: neu, joined });
+    }
+    if (takesOld(line)) old++;
+    if (takesNew(line)) neu++;
+  }
+  body = shown;
+
+  // Keep changes and the context lines within `context` of one, without crossing a break
+  const distance = body.map(line => line.marker === ' ' ? Infinity : 0);
+  for (let i = 1; i < body.length; i++) {
+    if (positions[i].joined) distance[i] = Math.min(distance[i], distance[i - 1] + 1);
+  }
+  for (let i = body.length - 2; i >= 0; i--) {
+    if (positions[i + 1].joined) distance[i] = Math.min(distance[i], distance[i + 1] + 1);
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  while (i < body.length) {
+    if (distance[i] > context) {
+      i++;
+      continue;
+    }
+    let end = i + 1;
+    while (end < body.length && distance[end] <= context && positions[end].joined) end++;
+    const hunk = body.slice(i, end);
+    const oldLines = hunk.filter(takesOld).length;
+    const newLines = hunk.filter(takesNew).length;
+    // An empty range starts at the line before the change
+    const oldStart = oldLines === 0 ? positions[i].old : positions[i].old + 1;
+    const newStart = newLines === 0 ? positions[i].new : positions[i].new + 1;
+    lines.push(`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`);
+    for (const line of hunk) {
+      lines.push(`${line.marker}${line.text}`);
+      if (line.noEol) lines.push('\\ No newline at end of file');
+    }
+    i = end;
+  }
+  if (lines.length === 0) return '';
+  return [`--- ${oldPath}`, `+++ ${newPath}`, ...lines].join('\n') + '\n';
+}
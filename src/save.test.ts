@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync, statSync, chmodSync, symlinkSync, lstatSync, utimesSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readDiskState, readChangedFile, writeFileAtomic } from './save.js';
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'diffuse-save-'));
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('replaces the file, keeps its mode and leaves no temp file', () => {
+    const path = join(dir, 'script.sh');
+    writeFileSync(path, 'old');
+    chmodSync(path, 0o751);
+
+    writeFileAtomic(path, 'new');
+    expect(readFileSync(path, 'utf-8')).toBe('new');
+    expect(statSync(path).mode & 0o7777).toBe(0o751);
+    expect(readdirSync(dir)).toEqual(['script.sh']);
+  });
+
+  it('creates missing files', () => {
+    const path = join(dir, 'created.txt');
+    writeFileAtomic(path, 'hello');
+    expect(readFileSync(path, 'utf-8')).toBe('hello');
+  });
+
+  it('writes through symlinks', () => {
+    const real = join(dir, 'real.txt');
+    const link = join(dir, 'link.txt');
+    writeFileSync(real, 'old');
+    symlinkSync(real, link);
+
+    writeFileAtomic(link, 'new');
+    expect(lstatSync(link).isSymbolicLink()).toBe(true);
+    expect(readFileSync(real, 'utf-8')).toBe('new');
+  });
+
+  it('keeps a .orig copy when asked', () => {
+    const path = join(dir, 'backed.txt');
+    writeFileSync(path, 'original');
+    writeFileAtomic(path, 'edited', { backup: true });
+    expect(readFileSync(`${path}.orig`, 'utf-8')).toBe('original');
+    expect(readFileSync(path, 'utf-8')).toBe('edited');
+  });
+
+  it('detects content changed since the stamp was taken', () => {
+    const path = join(dir, 'watched.txt');
+    writeFileSync(path, 'loaded');
+    const state = readDiskState(path);
+    expect(state.text).toBe('loaded');
+    expect(readChangedFile(path, state)).toBeNull();
+
+    // Touched but identical
+    utimesSync(path, new Date(), new Date(Date.now() + 5000));
+    expect(readChangedFile(path, state)).toBeNull();
+
+    writeFileSync(path, 'someone else');
+    expect(readChangedFile(path, state)).toBe('someone else');
+  });
+
+  it('treats a file created since loading as changed and a deleted one as not', () => {
+    const path = join(dir, 'appeared.txt');
+    const state = readDiskState(path);
+    expect(state).toEqual({ stamp: null, text: null });
+    writeFileSync(path, 'new');
+    expect(readChangedFile(path, state)).toBe('new');
+    expect(readChangedFile(join(dir, 'missing.txt'), state)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+// Saving
+// Atomic writes that keep the file mode, and detection of files changed on disk since they were loaded
+
+import {
+  statSync, readFileSync, realpathSync, copyFileSync, openSync, writeSync, fsyncSync, closeSync,
+  chmodSync, renameSync, rmSync,
+} from 'fs';
+import { basename, dirname, join } from 'path';
+
+// Enough to tell cheaply that a file was not touched
+export interface FileStamp {
+  mtimeMs: number;
+  size: number;
+}
+
+// null when the file doesn't exist (yet)
+export function stampFile(path: string): FileStamp | null {
+  try {
+    const stat = statSync(path);
+    return { mtimeMs: stat.mtimeMs, size: stat.size };
+  } catch {
+    return null;
+  }
+}
+
+// A file as diffuse last read or wrote it
+export interface DiskState {
+  stamp: FileStamp | null;
+  text: string | null; // null when the file didn't exist
+}
+
+export function readDiskState(path: string): DiskState {
+  const stamp = stampFile(path);
+  return { stamp, text: stamp ? readFileSync(path, 'utf-8') : null };
+}
+
+// The file's content if it no longer matches `state`, else null. A file whose stamp is
+// unchanged is not read; a touched file with the same text counts as unchanged.
+export function readChangedFile(path: string, state: DiskState): string | null {
+  const current = stampFile(path);
+  if (!current) return null; // Deleted - writing recreates it
+  const { stamp } = state;
+  if (stamp && current.mtimeMs === stamp.mtimeMs && current.size === stamp.size) return null;
+  const disk = readFileSync(path, 'utf-8');
+  return disk === state.text ? null : disk;
+}
+
+export interface WriteOptions {
+  backup?: boolean; // Copy the current file to <path>.orig first
+}
+
+// Write to a temp file next to the target, flush it and rename it over the target, so a crash
+// leaves either the old or the new file. Symlinks are written through and the mode is kept.
+export function writeFileAtomic(path: string, content: string, options: WriteOptions = {}): void {
+  const existing = stampFile(path) !== null;
+  const target = existing ? realpathSync(path) : path;
+  const mode = existing ? statSync(target).mode & 0o7777 : undefined;
+  if (options.backup && existing) copyFileSync(target, `${path}.orig`);
+
+  const temp = join(dirname(target), `.${basename(target)}.${process.pid}.tmp`);
+  try {
+    const fd = openSync(temp, 'w', mode);
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    if (mode !== undefined) chmodSync(temp, mode); // The open mode is masked by the umask
+    renameSync(temp, target);
+  } catch (error) {
+    rmSync(temp, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { computeDiffSections } from './diff.js';
+import { countChanges, formatStat } from './stat.js';
+
+describe('countChanges', () => {
+  it('counts paired rows as changed and the rest as added or removed', () => {
+    const sections = computeDiffSections('a\nb\nc\nd', 'a\nB\nd\ne\nf');
+    expect(countChanges(sections)).toEqual({ added: 2, removed: 1, changed: 1 });
+  });
+
+  it('counts nothing for lines that only differ in ignored ways', () => {
+    const sections = computeDiffSections('a \nb', 'a\nb', { ignoreTrailingWhitespace: true });
+    expect(countChanges(sections)).toEqual({ added: 0, removed: 0, changed: 0 });
+  });
+});
+
+describe('formatStat', () => {
+  it('aligns names and counts and totals every file', () => {
+    expect(formatStat([
+      { name: 'a.txt', stat: { added: 2, removed: 1, changed: 0 } },
+      { name: 'dir/b.txt', stat: { added: 0, removed: 0, changed: 10 } },
+    ], 80)).toEqual([
+      ' a.txt     |  3 ++-',
+      ' dir/b.txt | 10 ~~~~~~~~~~',
+      ' 2 files changed, 2 lines added(+), 1 removed(-), 10 changed(~)',
+    ]);
+  });
+
+  it('scales bars to the width but keeps a mark per kind', () => {
+    const [line] = formatStat([{ name: 'big', stat: { added: 1000, removed: 1, changed: 0 } }], 40);
+    expect(line.length).toBeLessThanOrEqual(41);
+    expect(line.endsWith('+-')).toBe(true);
+  });
+});
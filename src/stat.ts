@@ -0,0 +1,58 @@
+// Diff statistics
+// Added / removed / changed line counts per file with a histogram bar, like `git diff --stat`
+
+import type { DiffSection } from './diff.js';
+
+export interface DiffStat {
+  added: number;
+  removed: number;
+  changed: number; // Rows with a removed line paired with an added one
+}
+
+export function countChanges(sections: DiffSection[]): DiffStat {
+  const stat: DiffStat = { added: 0, removed: 0, changed: 0 };
+  for (const section of sections) {
+    const maxLines = Math.max(section.leftLines.length, section.rightLines.length);
+    for (let i = 0; i < maxLines; i++) {
+      const left = section.leftLines[i];
+      const right = section.rightLines[i];
+      const isRemoved = !!left && left.type !== 'equal' && left.type !== 'empty';
+      const isAdded = !!right && right.type !== 'equal' && right.type !== 'empty';
+      if (isRemoved && isAdded) stat.changed++;
+      else if (isRemoved) stat.removed++;
+      else if (isAdded) stat.added++;
+    }
+  }
+  return stat;
+}
+
+function statTotal(stat: DiffStat): number {
+  return stat.added + stat.removed + stat.changed;
+}
+
+// One line per file (" name | 12 +++--~~") scaled to fit `width`, then a totals line
+export function formatStat(files: { name: string; stat: DiffStat }[], width: number): string[] {
+  const nameWidth = Math.max(0, ...files.map(file => file.name.length));
+  const countWidth = Math.max(1, ...files.map(file => String(statTotal(file.stat)).length));
+  const largest = Math.max(0, ...files.map(file => statTotal(file.stat)));
+  // " name | count " comes before the bar
+  const barWidth = Math.max(10, width - nameWidth - countWidth - 5);
+  const scale = largest > barWidth ? barWidth / largest : 1;
+
+  const lines = files.map(({ name, stat }) => {
+    // Every non-zero count keeps at least one mark
+    const marks = (count: number) => count === 0 ? 0 : Math.max(1, Math.round(count * scale));
+    const bar = '+'.repeat(marks(stat.added)) + '-'.repeat(marks(stat.removed)) + '~'.repeat(marks(stat.changed));
+    return ` ${name.padEnd(nameWidth)} | ${String(statTotal(stat)).padStart(countWidth)} ${bar}`.trimEnd();
+  });
+
+  const total = files.reduce(
+    (sum, { stat }) => ({ added: sum.added + stat.added, removed: sum.removed + stat.removed, changed: sum.changed + stat.changed }),
+    { added: 0, removed: 0, changed: 0 }
+  );
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  lines.push(
+    ` ${plural(files.length, 'file')} changed, ${plural(total.added, 'line')} added(+), ${total.removed} removed(-), ${total.changed} changed(~)`
+  );
+  return lines;
+}
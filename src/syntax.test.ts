@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, findLanguage, highlightLines, createHighlighter, applyTokens } from './syntax.js';
+import type { Language } from './syntax.js';
+
+// Token text and kind for one line, for readable assertions
+function tokensOf(line: string, language: Language): string[] {
+  return highlightLines([line], language)[0].map(token => `${token.kind}:${line.slice(token.start, token.end)}`);
+}
+
+describe('detectLanguage', () => {
+  it('maps extensions, including git-style labels', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript');
+    expect(detectLanguage('HEAD:lib/util.py')).toBe('python');
+    expect(detectLanguage('config.YML')).toBe('yaml');
+    expect(detectLanguage('Makefile')).toBeNull();
+    expect(detectLanguage('notes.txt')).toBeNull();
+  });
+
+  it('accepts language names and extensions on the command line', () => {
+    expect(findLanguage('go')).toBe('go');
+    expect(findLanguage('js')).toBe('typescript');
+    expect(findLanguage('cobol')).toBeNull();
+  });
+});
+
+describe('highlightLines', () => {
+  it('tokenizes TypeScript without matching keywords inside identifiers', () => {
+    expect(tokensOf('const format = "x"; // done', 'typescript')).toEqual([
+      'keyword:const', 'string:"x"', 'comment:// done',
+    ]);
+    expect(tokensOf('returned = 0x1f', 'typescript')).toEqual(['number:0x1f']);
+  });
+
+  it('carries block comments and triple-quoted strings across lines', () => {
+    const lines = ['/* start', 'still comment', 'end */ let x = 1;'];
+    const tokens = highlightLines(lines, 'typescript');
+    expect(tokens[1]).toEqual([{ start: 0, end: 13, kind: 'comment' }]);
+    expect(tokens[2].map(t => t.kind)).toEqual(['comment', 'keyword', 'number']);
+
+    const python = highlightLines(['s = """doc', 'more', 'end"""', 'pass'], 'python');
+    expect(python[1][0].kind).toBe('string');
+    expect(python[3][0].kind).toBe('keyword');
+  });
+
+  it('distinguishes keys from values in JSON and YAML', () => {
+    expect(tokensOf('  "name": "diffuse", "n": 3, "ok": true', 'json')).toEqual([
+      'key:"name"', 'string:"diffuse"', 'key:"n"', 'number:3', 'key:"ok"', 'constant:true',
+    ]);
+    expect(tokensOf('- name: build # step', 'yaml')).toEqual(['keyword:-', 'key:name', 'comment:# step']);
+  });
+
+  it('highlights shell variables, Go keywords and Markdown structure', () => {
+    expect(tokensOf('echo "$HOME" ${PATH} # path', 'shell')).toEqual([
+      'string:"$HOME"', 'variable:${PATH}', 'comment:# path',
+    ]);
+    expect(tokensOf('func main() { return nil }', 'go')).toEqual(['keyword:func', 'keyword:return', 'constant:nil']);
+    expect(tokensOf('## Usage', 'markdown')).toEqual(['heading:## Usage']);
+    expect(tokensOf('- see [docs](http://x) and `code`', 'markdown')).toEqual([
+      'keyword:-', 'link:[docs](http://x)', 'string:`code`',
+    ]);
+  });
+});
+
+describe('createHighlighter', () => {
+  it('tokenizes only the lines an edit changed', () => {
+    const highlighter = createHighlighter('typescript');
+    const before = highlighter.highlight(['let a = 1;', '/* note', 'let b = 2; */', 'let c = 3;']);
+    const after = highlighter.highlight(['let a = 10;', '/* note', 'let b = 2; */', 'let c = 3;']);
+    // Unchanged lines come from the cache as they were
+    expect(after[1]).toBe(before[1]);
+    expect(after[3]).toBe(before[3]);
+    expect(after[0]).not.toBe(before[0]);
+  });
+
+  it('tokenizes a line again when the block open before it changes', () => {
+    const highlighter = createHighlighter('typescript');
+    highlighter.highlight(['/* note', 'let b = 2; */']);
+    const [line] = highlighter.highlight(['let b = 2; */']);
+    expect(line.map(token => token.kind)).toEqual(['keyword', 'number']);
+  });
+});
+
+describe('applyTokens', () => {
+  it('splits segments at token boundaries, keeping changed flags', () => {
+    const segments = [{ text: 'let x', changed: false }, { text: ' = 1', changed: true }];
+    const tokens = [{ start: 0, end: 3, kind: 'keyword' as const }, { start: 8, end: 9, kind: 'number' as const }];
+    expect(applyTokens(segments, tokens)).toEqual([
+      { text: 'let', changed: false, kind: 'keyword' },
+      { text: ' x', changed: false },
+      { text: ' = ', changed: true },
+      { text: '1', changed: true, kind: 'number' },
+    ]);
+  });
+
+  it('honors the horizontal offset of the first segment', () => {
+    const tokens = [{ start: 0, end: 5, kind: 'keyword' as const }];
+    expect(applyTokens([{ text: 'st x', changed: false }], tokens, 3)).toEqual([
+      { text: 'st', changed: false, kind: 'keyword' },
+      { text: ' x', changed: false },
+    ]);
+  });
+});
@@ -0,0 +1,284 @@
+// Syntax highlighting
+// A small bundled tokenizer: per-language regex rules plus multi-line comments/strings carried between lines
+
+import type { LineSegment } from './diff.js';
+
+export type Language = 'typescript' | 'json' | 'python' | 'go' | 'markdown' | 'yaml' | 'shell';
+
+export const LANGUAGES: Language[] = ['typescript', 'json', 'python', 'go', 'markdown', 'yaml', 'shell'];
+
+export type TokenKind = 'keyword' | 'string' | 'number' | 'comment' | 'constant' | 'key' | 'heading' | 'variable' | 'link';
+
+export interface Token {
+  start: number;
+  end: number;
+  kind: TokenKind;
+}
+
+export interface HighlightedSegment extends LineSegment {
+  kind?: TokenKind;
+}
+
+const EXTENSIONS: Record<string, Language> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+  json: 'json', jsonc: 'json',
+  py: 'python', pyi: 'python',
+  go: 'go',
+  md: 'markdown', markdown: 'markdown',
+  yml: 'yaml', yaml: 'yaml',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+};
+
+// Language from a file name or label such as "HEAD:src/app.ts"; null when unknown
+export function detectLanguage(fileName: string): Language | null {
+  const match = fileName.match(/\.([A-Za-z0-9]+)$/);
+  return match ? EXTENSIONS[match[1].toLowerCase()] ?? null : null;
+}
+
+// Language named on the command line: a language name or a file extension such as "py"
+export function findLanguage(name: string): Language | null {
+  const lower = name.toLowerCase();
+  if ((LANGUAGES as string[]).includes(lower)) return lower as Language;
+  return EXTENSIONS[lower] ?? null;
+}
+
+// A construct that may span lines, e.g. /* ... */ or a Markdown code fence
+interface Block {
+  open: string;
+  close: string;
+  kind: TokenKind;
+}
+
+interface Rule {
+  pattern: RegExp; // Sticky, tried at the current position
+  kind: TokenKind | ((text: string) => TokenKind | null); // null consumes the text without a token
+  lineStart?: boolean; // Only after indentation (and a YAML "- " list marker)
+}
+
+interface Grammar {
+  blocks: Block[];
+  rules: Rule[];
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+// Identifiers are consumed whole so keywords never match inside longer names
+const wordRule = (pattern: RegExp, keywords: Set<string>, constants: Set<string>): Rule => ({
+  pattern,
+  kind: text => keywords.has(text) ? 'keyword' : constants.has(text) ? 'constant' : null,
+});
+
+const DOUBLE_QUOTED = /"(?:[^"\\]|\\.)*"?/y;
+const SINGLE_QUOTED = /'(?:[^'\\]|\\.)*'?/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/y;
+const HASH_COMMENT = /(?<=^|\s)#.*/y;
+
+const GRAMMARS: Record<Language, Grammar> = {
+  typescript: {
+    blocks: [{ open: '/*', close: '*/', kind: 'comment' }],
+    rules: [
+      { pattern: /\/\/.*/y, kind: 'comment' },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      { pattern: SINGLE_QUOTED, kind: 'string' },
+      { pattern: /`(?:[^`\\]|\\.)*`?/y, kind: 'string' },
+      wordRule(/[A-Za-z_$][\w$]*/y,
+        words('abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let new of private protected public readonly return set static super switch throw try type typeof var void while with yield'),
+        words('true false null undefined this NaN Infinity')),
+      { pattern: NUMBER, kind: 'number' },
+    ],
+  },
+  json: {
+    blocks: [],
+    rules: [
+      { pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/y, kind: 'key' },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      wordRule(/[A-Za-z_]\w*/y, new Set(), words('true false null')),
+      { pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, kind: 'number' },
+    ],
+  },
+  python: {
+    blocks: [{ open: '"""', close: '"""', kind: 'string' }, { open: "'''", close: "'''", kind: 'string' }],
+    rules: [
+      { pattern: /#.*/y, kind: 'comment' },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      { pattern: SINGLE_QUOTED, kind: 'string' },
+      { pattern: /@[\w.]+/y, kind: 'keyword' },
+      wordRule(/[A-Za-z_]\w*/y,
+        words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield'),
+        words('True False None self')),
+      { pattern: NUMBER, kind: 'number' },
+    ],
+  },
+  go: {
+    blocks: [{ open: '/*', close: '*/', kind: 'comment' }, { open: '`', close: '`', kind: 'string' }],
+    rules: [
+      { pattern: /\/\/.*/y, kind: 'comment' },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      { pattern: SINGLE_QUOTED, kind: 'string' },
+      wordRule(/[A-Za-z_]\w*/y,
+        words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+        words('true false nil iota')),
+      { pattern: NUMBER, kind: 'number' },
+    ],
+  },
+  markdown: {
+    blocks: [{ open: '```', close: '```', kind: 'string' }],
+    rules: [
+      { pattern: /#{1,6}\s.*/y, kind: 'heading', lineStart: true },
+      { pattern: />.*/y, kind: 'comment', lineStart: true },
+      { pattern: /(?:[-*+]|\d+\.)(?=\s)/y, kind: 'keyword', lineStart: true },
+      { pattern: /`[^`]*`?/y, kind: 'string' },
+      { pattern: /!?\[[^\]]*\]\([^)]*\)/y, kind: 'link' },
+      { pattern: /(\*\*|__)(?:(?!\1).)+\1/y, kind: 'keyword' },
+      { pattern: /\w+/y, kind: () => null },
+    ],
+  },
+  yaml: {
+    blocks: [],
+    rules: [
+      { pattern: HASH_COMMENT, kind: 'comment' },
+      { pattern: /[^\s#:'"-][^#:]*?(?=\s*:(?:\s|$))/y, kind: 'key', lineStart: true },
+      { pattern: /-(?=\s|$)/y, kind: 'keyword', lineStart: true },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      { pattern: SINGLE_QUOTED, kind: 'string' },
+      { pattern: /[&*][\w-]+/y, kind: 'variable' },
+      wordRule(/[A-Za-z_][\w.-]*/y, new Set(), words('true false null yes no on off True False Null')),
+      { pattern: /-?\d+(?:\.\d+)?\b/y, kind: 'number' },
+    ],
+  },
+  shell: {
+    blocks: [],
+    rules: [
+      { pattern: HASH_COMMENT, kind: 'comment' },
+      { pattern: DOUBLE_QUOTED, kind: 'string' },
+      { pattern: /'[^']*'?/y, kind: 'string' },
+      { pattern: /\$(?:\{[^}]*\}?|\w+|[@#?*!$-])/y, kind: 'variable' },
+      wordRule(/[A-Za-z_][\w-]*/y,
+        words('if then else elif fi for do done case esac while until function in return export local readonly declare select time'),
+        words('true false')),
+      { pattern: /\d+\b/y, kind: 'number' },
+    ],
+  },
+};
+
+interface LineResult {
+  tokens: Token[];
+  openBlock: number; // Index of the grammar block left open at the end of the line, or -1
+}
+
+function tokenizeLine(line: string, grammar: Grammar, openBlock: number): LineResult {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let stillOpen = -1;
+
+  // Finish a block, opened earlier on this line or by a previous one
+  const closeBlock = (index: number, start: number, searchFrom: number) => {
+    const block = grammar.blocks[index];
+    const close = line.indexOf(block.close, searchFrom);
+    const end = close === -1 ? line.length : close + block.close.length;
+    if (end > start) tokens.push({ start, end, kind: block.kind });
+    stillOpen = close === -1 ? index : -1;
+    pos = end;
+  };
+
+  if (openBlock !== -1) closeBlock(openBlock, 0, 0);
+
+  scan: while (pos < line.length) {
+    for (let index = 0; index < grammar.blocks.length; index++) {
+      if (line.startsWith(grammar.blocks[index].open, pos)) {
+        closeBlock(index, pos, pos + grammar.blocks[index].open.length);
+        continue scan;
+      }
+    }
+    for (const rule of grammar.rules) {
+      if (rule.lineStart && !/^\s*(?:-\s+)?$/.test(line.slice(0, pos))) continue;
+      rule.pattern.lastIndex = pos;
+      const match = rule.pattern.exec(line);
+      if (!match || match[0].length === 0) continue;
+      const kind = typeof rule.kind === 'function' ? rule.kind(match[0]) : rule.kind;
+      if (kind) tokens.push({ start: pos, end: pos + match[0].length, kind });
+      pos += match[0].length;
+      continue scan;
+    }
+    pos++;
+  }
+
+  return { tokens, openBlock: stillOpen };
+}
+
+export interface Highlighter {
+  highlight(lines: string[]): Token[][]; // Consecutive lines of one file
+}
+
+// Tokenizes files line by line; block comments and strings carry over between lines. Tokens are
+// remembered by line text and the block open before it, so highlighting a file again after an
+// edit only tokenizes the lines that changed. Lines gone from the latest file are forgotten.
+export function createHighlighter(language: Language): Highlighter {
+  const grammar = GRAMMARS[language];
+  let known = new Map<string, LineResult>();
+
+  return {
+    highlight(lines) {
+      const seen = new Map<string, LineResult>();
+      let openBlock = -1;
+      const tokens = lines.map(line => {
+        // Lines never contain '\n'
+        const key = openBlock === -1 ? line : `${openBlock}\n${line}`;
+        const result = seen.get(key) ?? known.get(key) ?? tokenizeLine(line, grammar, openBlock);
+        seen.set(key, result);
+        openBlock = result.openBlock;
+        return result.tokens;
+      });
+      known = seen;
+      return tokens;
+    },
+  };
+}
+
+export function highlightLines(lines: string[], language: Language): Token[][] {
+  return createHighlighter(language).highlight(lines);
+}
+
+// Split rendered segments (which start at column `from`) further at token boundaries
+export function applyTokens(segments: LineSegment[], tokens: Token[], from = 0): HighlightedSegment[] {
+  const result: HighlightedSegment[] = [];
+  let offset = from;
+  let tokenIndex = 0;
+
+  for (const segment of segments) {
+    const end = offset + segment.text.length;
+    let pos = offset;
+    while (pos < end) {
+      while (tokenIndex < tokens.length && tokens[tokenIndex].end <= pos) tokenIndex++;
+      const token = tokens[tokenIndex];
+      if (token && token.start <= pos) {
+        const pieceEnd = Math.min(end, token.end);
+        result.push({ text: segment.text.slice(pos - offset, pieceEnd - offset), changed: segment.changed, kind: token.kind });
+        pos = pieceEnd;
+      } else {
+        const pieceEnd = Math.min(end, token ? token.start : end);
+        result.push({ text: segment.text.slice(pos - offset, pieceEnd - offset), changed: segment.changed });
+        pos = pieceEnd;
+      }
+    }
+    offset = end;
+  }
+
+  return result;
+}
+
+export function getColorForToken(kind: TokenKind): string {
+  switch (kind) {
+    case 'keyword': return 'blueBright';
+    case 'string': return 'yellowBright';
+    case 'number': return 'cyanBright';
+    case 'comment': return 'gray';
+    case 'constant': return 'cyanBright';
+    case 'key': return 'cyan';
+    case 'heading': return 'magentaBright';
+    case 'variable': return 'magentaBright';
+    case 'link': return 'cyan';
+    default: return 'white';
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, renameSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { watchFiles, mapLine } from './watch.js';
+
+describe('mapLine', () => {
+  const before = 'a\nb\nc\nd\ne';
+
+  it('keeps lines of unchanged text', () => {
+    expect(mapLine(before, before, 3)).toBe(3);
+  });
+
+  it('follows lines past insertions and removals above them', () => {
+    expect(mapLine(before, 'new\nnew\na\nb\nc\nd\ne', 3)).toBe(5);
+    expect(mapLine(before, 'a\nd\ne', 3)).toBe(1);
+  });
+
+  it('maps a changed or removed line to where its replacement starts', () => {
+    expect(mapLine(before, 'a\nb\nX\nY\nd\ne', 2)).toBe(2);
+    expect(mapLine(before, 'a\nb\nd\ne', 2)).toBe(2);
+  });
+
+  it('stays within the new text', () => {
+    expect(mapLine(before, 'a\nb', 4)).toBe(1);
+  });
+});
+
+describe('watchFiles', () => {
+  let dir: string;
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'diffuse-watch-'));
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const nextChange = (paths: string[], change: () => void) => new Promise<string>(resolve => {
+    const stop = watchFiles(paths, path => {
+      stop();
+      resolve(path);
+    }, 20);
+    // Let the first poll record the current state
+    setTimeout(change, 100);
+  });
+
+  it('reports writes to a watched file', async () => {
+    const path = join(dir, 'written.txt');
+    writeFileSync(path, 'old');
+    await expect(nextChange([path], () => writeFileSync(path, 'new text'))).resolves.toBe(path);
+  });
+
+  it('reports files replaced by a rename, as formatters save them', async () => {
+    const path = join(dir, 'replaced.txt');
+    const other = join(dir, 'other.txt');
+    writeFileSync(path, 'old');
+    await expect(nextChange([other, path], () => {
+      writeFileSync(`${path}.tmp`, 'formatted');
+      renameSync(`${path}.tmp`, path);
+    })).resolves.toBe(path);
+  });
+});
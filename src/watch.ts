@@ -0,0 +1,50 @@
+// File watching
+// Polls the compared files for changes by other programs (formatters, code generators) for
+// --watch, and finds where a line ended up once its file changed
+
+import { watchFile, unwatchFile } from 'fs';
+import type { Stats } from 'fs';
+import { diffLineArrays } from './algorithms.js';
+import { MAX_EDIT_LENGTH } from './diff.js';
+
+// Polling, unlike fs.watch, keeps working when a tool replaces the file instead of writing to it
+const POLL_INTERVAL_MS = 300;
+
+// Call onChange(path) whenever a file's modification time or size changes (including it being
+// created or deleted); returns a function that stops watching
+export function watchFiles(paths: string[], onChange: (path: string) => void, interval = POLL_INTERVAL_MS): () => void {
+  const watchers = paths.map(path => {
+    const listener = (current: Stats, previous: Stats) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.size !== previous.size) onChange(path);
+    };
+    watchFile(path, { interval, persistent: false }, listener);
+    return { path, listener };
+  });
+  return () => watchers.forEach(({ path, listener }) => unwatchFile(path, listener));
+}
+
+// Index in `after` of line `line` of `before`: unchanged lines follow the lines inserted or
+// removed above them, and a changed or removed line maps to where its replacement starts
+export function mapLine(before: string, after: string, line: number): number {
+  const afterLines = after.split('\n');
+  const changes = diffLineArrays(before.split('\n'), afterLines, 'myers', MAX_EDIT_LENGTH);
+  if (!changes) return Math.min(line, afterLines.length - 1);
+
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  for (const change of changes) {
+    const count = change.value.length;
+    if (change.added) {
+      afterIndex += count;
+    } else if (change.removed) {
+      // Removals come before the additions that replace them
+      if (line < beforeIndex + count) return Math.min(afterIndex, afterLines.length - 1);
+      beforeIndex += count;
+    } else {
+      if (line < beforeIndex + count) return afterIndex + line - beforeIndex;
+      beforeIndex += count;
+      afterIndex += count;
+    }
+  }
+  return afterLines.length - 1;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { startDiffTask, countLines } from './worker.js';
+
+// Stand-ins for the diff worker (the real one is this module compiled to JavaScript)
+const script = (body: string) =>
+  new URL(`data:text/javascript,${encodeURIComponent(`import { parentPort, workerData } from 'worker_threads';\n${body}`)}`);
+
+describe('countLines', () => {
+  it('counts lines the way splitting on newlines does', () => {
+    expect(countLines('')).toBe(1);
+    expect(countLines('a\nb')).toBe(2);
+    expect(countLines('a\nb\n')).toBe(3);
+  });
+});
+
+describe('startDiffTask', () => {
+  it('resolves with what the worker posts', async () => {
+    const task = startDiffTask('left', 'right', {}, script('parentPort.postMessage({ sections: [], coarse: workerData.left === "left" });'));
+    await expect(task.result).resolves.toEqual({ sections: [], coarse: true });
+  });
+
+  it('rejects when the worker throws', async () => {
+    const task = startDiffTask('', '', {}, script('throw new Error("boom");'));
+    await expect(task.result).rejects.toThrow('boom');
+  });
+
+  it('rejects when the worker exits without a result', async () => {
+    const task = startDiffTask('', '', {}, script('process.exit(3);'));
+    await expect(task.result).rejects.toThrow('exited with code 3');
+  });
+
+  it('never settles once cancelled', async () => {
+    const task = startDiffTask('', '', {}, script('setInterval(() => {}, 1000);'));
+    task.cancel();
+    const pending = Symbol('pending');
+    const settled = await Promise.race([
+      task.result.then(() => 'resolved', () => 'rejected'),
+      new Promise(resolve => setTimeout(() => resolve(pending), 300)),
+    ]);
+    expect(settled).toBe(pending);
+  });
+});
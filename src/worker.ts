@@ -0,0 +1,60 @@
+// Background diffing
+// Large inputs are diffed in a worker thread, so the view stays responsive and the diff can be
+// cancelled. This module is also the worker's entry point.
+
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { computeDiff } from './diff.js';
+import type { DiffOptions, DiffResult } from './diff.js';
+
+// Inputs with fewer lines than this (both sides together) are diffed in place; starting a
+// worker and copying the result back costs more than it saves
+export const WORKER_MIN_LINES = 20000;
+
+// Edit distance large inputs are first diffed to in place: inputs that barely differ (such as
+// after an edit) get their diff at once, and giving up on this costs little
+export const QUICK_EDIT_LENGTH = 200;
+
+export interface DiffTask {
+  result: Promise<DiffResult>; // Rejects when the worker fails or exits without a result
+  cancel: () => void; // Stops the worker; `result` then never settles
+}
+
+interface DiffRequest {
+  left: string;
+  right: string;
+  options: DiffOptions;
+}
+
+export function countLines(text: string): number {
+  let count = 1;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
+
+// `script` is the worker to run, this module unless a test substitutes one
+export function startDiffTask(left: string, right: string, options: DiffOptions, script = new URL(import.meta.url)): DiffTask {
+  const request: DiffRequest = { left, right, options };
+  const worker = new Worker(script, { workerData: request });
+  let cancelled = false;
+  const result = new Promise<DiffResult>((resolve, reject) => {
+    worker.once('message', resolve);
+    worker.once('error', reject);
+    // A worker killed without an error event (e.g. running out of memory) only exits; once a
+    // result or error has settled the promise, this does nothing
+    worker.once('exit', code => {
+      if (!cancelled) reject(new Error(`diff worker exited with code ${code} without a result`));
+    });
+  });
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      worker.terminate();
+    },
+  };
+}
+
+if (!isMainThread && parentPort) {
+  const { left, right, options } = workerData as DiffRequest;
+  parentPort.postMessage(computeDiff(left, right, options));
+}